@@ -0,0 +1,243 @@
+import { cookies } from "next/headers";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  EXPORT_FORMATS,
+  formatConversationExport,
+  isExportFormat,
+  type ConversationExport,
+  type ExportedMessage,
+} from "@/lib/conversation-export";
+import { isAccountSuspended } from "@/lib/suspension";
+import type { ChatAttachment } from "@/types/socket";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Rows fetched per history query (PostgREST returns at most 1000 by default)
+const EXPORT_PAGE_SIZE = 1000;
+
+// A chat_messages row as exported
+interface ExportMessageRow {
+  id: string;
+  sender_id: string;
+  message_text: string;
+  attachment: ChatAttachment | null;
+  created_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  reply_to_id: string | null;
+}
+
+// The requested time zone if the runtime knows it, otherwise UTC
+const toTimeZone = (value: string | null): string => {
+  if (!value) return "UTC";
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: value });
+    return value;
+  } catch {
+    return "UTC";
+  }
+};
+
+// "Chat with Anna" -> "chat-with-anna"
+const toFileSlug = (title: string): string =>
+  title
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "conversation";
+
+// Downloads the full history of a conversation the user belongs to:
+// GET /api/conversations/export?roomId=...&format=markdown|json|text&timeZone=...
+export async function GET(request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies });
+  const params = request.nextUrl.searchParams;
+  const roomId = params.get("roomId") ?? "";
+  const format = params.get("format");
+
+  try {
+    const {
+      data: { session },
+      error: sessionError,
+    } = await supabase.auth.getSession();
+
+    if (sessionError) {
+      console.error("Session Error:", sessionError.message);
+      throw new Error(`Authentication error: ${sessionError.message}`);
+    }
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (await isAccountSuspended(supabase)) {
+      return NextResponse.json({ error: "Account suspended" }, { status: 403 });
+    }
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: "Unknown export format" },
+        { status: 400 }
+      );
+    }
+    const userId = session.user.id;
+
+    // Check membership and work out who's in the conversation
+    let participantIds: string[];
+    let groupName: string | null = null;
+    const groupId = roomId.startsWith("group:") ? roomId.slice(6) : null;
+    if (groupId) {
+      if (!UUID_PATTERN.test(groupId)) {
+        return NextResponse.json({ error: "Invalid room" }, { status: 400 });
+      }
+      const [{ data: group, error: groupError }, { data: members, error }] =
+        await Promise.all([
+          supabase
+            .from("chat_groups")
+            .select("name")
+            .eq("id", groupId)
+            .maybeSingle(),
+          supabase
+            .from("chat_group_members")
+            .select("user_id")
+            .eq("group_id", groupId),
+        ]);
+      if (groupError || error) {
+        throw new Error(
+          `Database error loading group: ${(groupError || error)!.message}`
+        );
+      }
+      participantIds = (members || []).map((m) => m.user_id as string);
+      if (!group || !participantIds.includes(userId)) {
+        return NextResponse.json(
+          { error: "You're not a member of this group" },
+          { status: 403 }
+        );
+      }
+      groupName = group.name;
+    } else {
+      participantIds = roomId.split("--");
+      const otherUserId = participantIds.find((id) => id !== userId);
+      if (
+        participantIds.length !== 2 ||
+        !participantIds.every((id) => UUID_PATTERN.test(id)) ||
+        !participantIds.includes(userId) ||
+        !otherUserId
+      ) {
+        return NextResponse.json({ error: "Invalid room" }, { status: 400 });
+      }
+      const { data: match, error } = await supabase
+        .from("matches")
+        .select("id")
+        .or(
+          `and(student1_user_id.eq.${userId},student2_user_id.eq.${otherUserId}),and(student1_user_id.eq.${otherUserId},student2_user_id.eq.${userId})`
+        )
+        .limit(1);
+      if (error) {
+        throw new Error(`Database error checking match: ${error.message}`);
+      }
+      if (!match || match.length === 0) {
+        return NextResponse.json(
+          { error: "You can only export chats with your matches" },
+          { status: 403 }
+        );
+      }
+    }
+
+    // The full history, oldest first, a page at a time
+    const rows: ExportMessageRow[] = [];
+    for (;;) {
+      const { data, error } = await supabase
+        .from("chat_messages")
+        .select(
+          "id, sender_id, message_text, attachment, created_at, edited_at, deleted_at, reply_to_id"
+        )
+        .eq("room_id", roomId)
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(rows.length, rows.length + EXPORT_PAGE_SIZE - 1);
+      if (error) {
+        throw new Error(`Database error fetching messages: ${error.message}`);
+      }
+      rows.push(...((data as ExportMessageRow[] | null) || []));
+      if (!data || data.length < EXPORT_PAGE_SIZE) break;
+    }
+
+    // Names of everyone in the room and everyone who wrote in it (incl.
+    // members who have since left a group)
+    const userIds = [
+      ...new Set([...participantIds, ...rows.map((r) => r.sender_id)]),
+    ];
+    const { data: profiles, error: profilesError } = await supabase
+      .from("students")
+      .select("user_id, name")
+      .in("user_id", userIds);
+    if (profilesError) {
+      throw new Error(
+        `Database error fetching profiles: ${profilesError.message}`
+      );
+    }
+    const names = new Map(
+      (profiles || []).map((p) => [p.user_id as string, p.name as string])
+    );
+    const nameOf = (id: string) => names.get(id) || "Unknown user";
+    const title =
+      groupName ??
+      `Chat with ${nameOf(participantIds.find((id) => id !== userId)!)}`;
+
+    const messages: ExportedMessage[] = rows.map((row) => {
+      const deleted = !!row.deleted_at;
+      return {
+        id: row.id,
+        senderId: row.sender_id,
+        senderName: nameOf(row.sender_id),
+        text: deleted ? "" : row.message_text,
+        createdAt: row.created_at,
+        editedAt: row.edited_at,
+        deleted,
+        attachment:
+          row.attachment && !deleted
+            ? {
+                name: row.attachment.name,
+                mimeType: row.attachment.mimeType,
+                size: row.attachment.size,
+              }
+            : null,
+        replyToId: row.reply_to_id,
+      };
+    });
+
+    const data: ConversationExport = {
+      roomId,
+      title,
+      exportedAt: new Date().toISOString(),
+      timeZone: toTimeZone(params.get("timeZone")),
+      participants: participantIds.map((id) => ({
+        userId: id,
+        name: nameOf(id),
+      })),
+      messages,
+    };
+    const { extension, contentType } = EXPORT_FORMATS.find(
+      (f) => f.value === format
+    )!;
+    const fileName = `${toFileSlug(title)}-${data.exportedAt.slice(0, 10)}.${extension}`;
+
+    return new NextResponse(formatConversationExport(data, format), {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error: any) {
+    console.error("Failed to export conversation:", error.message || error);
+    return NextResponse.json(
+      {
+        error: "Failed to export conversation",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { cookies } from "next/headers";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { NextResponse } from "next/server";
+import { isAccountSuspended } from "@/lib/suspension";
+import type { ConversationPreview } from "@/types/socket";
+
+// A get_conversation_previews row (see lib/create_conversation_previews_function.sql)
+interface ConversationPreviewRow {
+  room_id: string;
+  last_message_id: string | null;
+  last_message_text: string | null;
+  last_message_sender_id: string | null;
+  last_message_at: string | null;
+  last_message_has_attachment: boolean | null;
+  last_message_deleted: boolean | null;
+  unread_count: number;
+}
+
+// Last message and unread count of each of the user's conversations (1:1
+// and groups), newest activity first, for the chat sidebar
+export async function GET() {
+  const supabase = createRouteHandlerClient({ cookies });
+
+  try {
+    const {
+      data: { session },
+      error: sessionError,
+    } = await supabase.auth.getSession();
+
+    if (sessionError) {
+      console.error("Session Error:", sessionError.message);
+      throw new Error(`Authentication error: ${sessionError.message}`);
+    }
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (await isAccountSuspended(supabase)) {
+      return NextResponse.json({ error: "Account suspended" }, { status: 403 });
+    }
+
+    // One query for all conversations; the function scopes them to auth.uid()
+    const { data, error } = await supabase.rpc("get_conversation_previews");
+
+    if (error) {
+      console.error("Conversation Fetch Error:", error.message);
+      throw new Error(
+        `Database error fetching conversations: ${error.message}`
+      );
+    }
+
+    const conversations: ConversationPreview[] = (
+      (data as ConversationPreviewRow[] | null) || []
+    ).map((row) => ({
+      roomId: row.room_id,
+      lastMessage: row.last_message_id
+        ? {
+            id: row.last_message_id,
+            text: row.last_message_text ?? "",
+            senderId: row.last_message_sender_id!,
+            createdAt: row.last_message_at!,
+            hasAttachment: !!row.last_message_has_attachment,
+            deleted: !!row.last_message_deleted,
+          }
+        : null,
+      unreadCount: Number(row.unread_count) || 0,
+    }));
+
+    return NextResponse.json(conversations);
+  } catch (error: any) {
+    console.error("Failed to fetch conversations:", error.message || error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch conversations",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { cookies } from "next/headers";
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  SESSION_COLUMNS,
+  buildSessionIcs,
+  fromSessionRow,
+  type StudySessionRow,
+} from "@/lib/study-sessions";
+import { isAccountSuspended } from "@/lib/suspension";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Downloads an accepted study session as a calendar file:
+// GET /api/sessions/ics?sessionId=...
+export async function GET(request: NextRequest) {
+  const supabase = createRouteHandlerClient({ cookies });
+  const sessionId = request.nextUrl.searchParams.get("sessionId") ?? "";
+
+  try {
+    const {
+      data: { session: authSession },
+      error: sessionError,
+    } = await supabase.auth.getSession();
+
+    if (sessionError) {
+      console.error("Session Error:", sessionError.message);
+      throw new Error(`Authentication error: ${sessionError.message}`);
+    }
+    if (!authSession) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (await isAccountSuspended(supabase)) {
+      return NextResponse.json({ error: "Account suspended" }, { status: 403 });
+    }
+    if (!UUID_PATTERN.test(sessionId)) {
+      return NextResponse.json({ error: "Invalid session" }, { status: 400 });
+    }
+    const userId = authSession.user.id;
+
+    // RLS only returns sessions of the user's own conversations
+    const { data: row, error } = await supabase
+      .from("study_sessions")
+      .select(SESSION_COLUMNS)
+      .eq("id", sessionId)
+      .maybeSingle()
+      .overrideTypes<StudySessionRow, { merge: false }>();
+    if (error) {
+      throw new Error(`Database error fetching session: ${error.message}`);
+    }
+    if (!row || row.status !== "accepted") {
+      return NextResponse.json(
+        { error: "No accepted session found" },
+        { status: 404 }
+      );
+    }
+    const session = fromSessionRow(row);
+
+    // Who it's with: the group, or the other person of a 1:1 chat
+    let withNames = "your study partner";
+    if (session.roomId.startsWith("group:")) {
+      const { data: group } = await supabase
+        .from("chat_groups")
+        .select("name")
+        .eq("id", session.roomId.slice(6))
+        .maybeSingle();
+      if (group?.name) withNames = group.name;
+    } else {
+      const otherUserId = session.roomId
+        .split("--")
+        .find((id) => id !== userId);
+      const { data: student } = otherUserId
+        ? await supabase
+            .from("students")
+            .select("name")
+            .eq("user_id", otherUserId)
+            .maybeSingle()
+        : { data: null };
+      if (student?.name) withNames = student.name;
+    }
+
+    const fileName = `study-session-${session.startsAt.slice(0, 10)}.ics`;
+    return new NextResponse(buildSessionIcs(session, withNames), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error: any) {
+    console.error("Failed to export session:", error.message || error);
+    return NextResponse.json(
+      {
+        error: "Failed to export session",
+        details: error.message || "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
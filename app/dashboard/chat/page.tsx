@@ -1,40 +1,186 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react"; // Import useRef
-import { io, Socket } from "socket.io-client";
+import { useState, useEffect, useRef, useCallback } from "react"; // Import useRef
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs"; // Import Supabase client helper
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Send } from "lucide-react";
+import {
+  AlertCircle,
+  Ban,
+  Check,
+  CheckCheck,
+  Clock,
+  Download,
+  Flag,
+  Loader2,
+  LogOut,
+  MoreVertical,
+  Pencil,
+  Pin,
+  Reply,
+  Search,
+  Send,
+  SmilePlus,
+  Trash2,
+  UserPlus,
+  UserX,
+  Users,
+} from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { ChatAttachmentView } from "@/components/chat-attachment";
+import { ChatMarkdown } from "@/components/chat-markdown";
+import { ChatSearchResults } from "@/components/chat-search-results";
+import { ChatGroupDialog } from "@/components/chat-group-dialog";
+import {
+  UserActionDialog,
+  type UserAction,
+} from "@/components/user-action-dialog";
+import { ReportDialog, type ReportTarget } from "@/components/report-dialog";
+import {
+  StudySessionDialog,
+  type StudySessionTarget,
+} from "@/components/study-session-dialog";
+import { StudySessionCard } from "@/components/study-session-card";
+import {
+  ChatMessageList,
+  type ChatMessageListHandle,
+} from "@/components/chat-message-list";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { User } from "@supabase/supabase-js"; // Import User type
 import { Badge } from "@/components/ui/badge"; // Import Badge component
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { format, formatDistanceToNow } from "date-fns";
+import { useChatSocket } from "@/components/chat-socket-provider";
+import { useChatRoomEvents } from "@/hooks/use-chat-room-events";
+import { useOutbox } from "@/hooks/use-outbox";
+import { ChatComposer } from "@/components/chat-composer";
+import { ChatPinnedBar } from "@/components/chat-pinned-bar";
+import {
+  HISTORY_COLUMNS,
+  SEND_ACK_TIMEOUT_MS,
+  createRoomId,
+  fromDbMessage,
+  fromSocketMessage,
+  isGroupRoomId,
+  mergeMessages,
+  replaceMessage,
+  toRoomId,
+  upsertGroup,
+  type ChatMessage,
+  type ChatMessageRow,
+  type Match,
+} from "@/lib/chat-state";
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/conversation-export";
+import type {
+  ChatAttachment,
+  ChatGroup,
+  ConversationPreview,
+  GroupChangeAck,
+  LastMessagePreview,
+  MessageChangeAck,
+  MessageQuote,
+  MessageSearchResult,
+  PinMessageAck,
+  PresenceUpdate,
+  RateLimitedPayload,
+  RespondToSessionAck,
+  StudySession,
+  ToggleReactionAck,
+} from "@/types/socket";
+
+// Messages loaded per history request (the latest page first, then older
+// pages while scrolling up)
+const HISTORY_PAGE_SIZE = 50;
+
+// Reactions offered by the picker (server/reactions.js accepts the same ones)
+const REACTION_EMOJIS = ["👍", "❤️", "😂", "😮", "😢", "🎉"];
+
+// How long a message stays highlighted after jumping to it from a reply
+const HIGHLIGHT_MS = 2000;
+
+// Hold a message this long on touch screens to open the reaction picker
+const LONG_PRESS_MS = 500;
+
+// How long after sending we can still edit or delete a message (the server
+// reads the same variable and enforces it)
+const EDIT_WINDOW_MS =
+  (Number(process.env.NEXT_PUBLIC_CHAT_EDIT_WINDOW_MINUTES) || 15) * 60 * 1000;
+
+// Show the server's "slow down" notice at least this long
+const SLOW_DOWN_NOTICE_MS = 4000;
+
+// Wait this long after messages scroll into view before sending read:mark
+const READ_MARK_DELAY_MS = 500;
+
+// Helper to group a message's reactions into counts, most used first
+const groupReactions = (
+  reactions: Record<string, string> | undefined,
+  currentUserId: string | undefined
+) => {
+  const groups = new Map<string, { count: number; mine: boolean }>();
+  for (const [userId, emoji] of Object.entries(reactions || {})) {
+    const group = groups.get(emoji) || { count: 0, mine: false };
+    group.count++;
+    group.mine ||= userId === currentUserId;
+    groups.set(emoji, group);
+  }
+  return [...groups.entries()]
+    .map(([emoji, group]) => ({ emoji, ...group }))
+    .sort((a, b) => b.count - a.count);
+};
 
-// Define message structure
-interface ChatMessage {
-  id: string; // Keep client-side ID for keys, or use DB id
-  text: string;
-  sender: "me" | "other";
-  roomId: string; // Identify which chat the message belongs to
-  timestamp: number; // Keep for sorting/display, or use created_at from DB
-  senderId: string; // Add senderId to map DB data
-  created_at?: string; // Add created_at from DB
-}
-
-// Define match structure
-interface Match {
-  id: string;
-  name: string;
-  avatar_url?: string | null; // Add avatar_url field
-}
-
-let socket: Socket | null = null; // Initialize socket as null
+// Helper to check if we may still edit/delete a message: our own, stored,
+// not deleted and within the edit window
+const canChangeMessage = (msg: ChatMessage): boolean =>
+  msg.sender === "me" &&
+  !msg.status &&
+  !!msg.created_at &&
+  !msg.deletedAt &&
+  Date.now() - new Date(msg.created_at).getTime() < EDIT_WINDOW_MS;
+
+// Helper to describe a match's online status ("Online" / "Last seen 5 minutes ago")
+const formatPresence = (presence?: PresenceUpdate): string | null => {
+  if (!presence) return null;
+  if (presence.online) return "Online";
+  if (!presence.lastSeen) return "Offline";
+  return `Last seen ${formatDistanceToNow(new Date(presence.lastSeen), {
+    addSuffix: true,
+  })}`;
+};
 
-// Helper to create a consistent room ID between two users
-const createRoomId = (userId1: string, userId2: string): string => {
-  // Ensure IDs are strings before sorting
-  return [String(userId1), String(userId2)].sort().join("--");
+// Helper for a conversation's last activity in the sidebar ("now", "5m",
+// "3h", "2d", then the date)
+const formatActivityTime = (iso: string): string => {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return "now";
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h`;
+  if (minutes < 7 * 24 * 60) return `${Math.floor(minutes / (24 * 60))}d`;
+  return format(new Date(iso), "d MMM");
 };
 
 export default function ChatPage() {
@@ -43,18 +189,70 @@ export default function ChatPage() {
   const [currentUserProfile, setCurrentUserProfile] = useState<{
     avatar_url?: string | null;
   } | null>(null); // Store current user's profile details
-  const [message, setMessage] = useState("");
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
   const [matches, setMatches] = useState<Match[]>([]);
+  const [groups, setGroups] = useState<ChatGroup[]>([]); // Group conversations we're in
+  const [previews, setPreviews] = useState<Record<string, ConversationPreview>>(
+    {}
+  ); // Last message per room ID, for the sidebar
+  const [, setActivityTick] = useState(0); // Re-renders so relative times stay current
+  const [groupDialog, setGroupDialog] = useState<
+    "create" | "invite" | "rename" | null
+  >(null); // Open group dialog
+  const [isLeaveGroupOpen, setIsLeaveGroupOpen] = useState(false); // Leave confirmation
+  const [userAction, setUserAction] = useState<UserAction | null>(null); // Unmatch/block confirmation for the open 1:1 chat
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null); // Message or user being reported
+  const [sessionTarget, setSessionTarget] = useState<StudySessionTarget | null>(
+    null
+  ); // Study session being proposed
+  const [isExporting, setIsExporting] = useState(false);
+  const [isPinnedBarOpen, setIsPinnedBarOpen] = useState(false);
   const [selectedChatId, setSelectedChatId] = useState<string | null>(null);
   const [currentRoomId, setCurrentRoomId] = useState<string | null>(null);
   const [isLoadingMatches, setIsLoadingMatches] = useState(true); // Loading state
   const [errorMatches, setErrorMatches] = useState<string | null>(null); // Error state
-  const [isSocketConnected, setIsSocketConnected] = useState(false); // Track socket connection status
-  const messagesEndRef = useRef<HTMLDivElement>(null); // Ref for the bottom element
-  const [lastViewedTimestamps, setLastViewedTimestamps] = useState<
-    Record<string, number>
-  >({}); // Track last viewed time per room
+  const {
+    socket,
+    isConnected: isSocketConnected,
+    isReconnecting,
+    unreadCounts,
+  } = useChatSocket(); // Shared connection and live unread counts
+  const [chatError, setChatError] = useState<string | null>(null); // Errors reported by the chat server
+  const [slowDownNotice, setSlowDownNotice] = useState<string | null>(null); // We're being rate-limited
+  const [hasOlderMessages, setHasOlderMessages] = useState(false); // More history above the loaded pages
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const isLoadingOlderRef = useRef(false); // Guards against overlapping page loads
+  const [pendingJump, setPendingJump] = useState<{
+    roomId: string;
+    messageId: string;
+  } | null>(null); // Jump asked for while a page was loading, done after it
+  const [visibleRange, setVisibleRange] = useState<{
+    start: number;
+    end: number;
+  } | null>(null); // Indexes of the messages currently on screen
+  const [isPageVisible, setIsPageVisible] = useState(true); // Only mark messages read while visible
+  const [editingMessage, setEditingMessage] = useState<ChatMessage | null>(
+    null
+  ); // Our message being edited in the composer
+  const [messageToDelete, setMessageToDelete] = useState<ChatMessage | null>(
+    null
+  ); // Our message waiting for delete confirmation
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(
+    null
+  ); // ID of the message whose reaction picker is open
+  const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null); // Message the composer replies to
+  const [jumpTargetId, setJumpTargetId] = useState<string | null>(null); // Message to scroll to once loaded
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null);
+  const messageListRef = useRef<ChatMessageListHandle>(null);
+  const [historyRoomId, setHistoryRoomId] = useState<string | null>(null); // Room whose latest page has loaded
+  const [searchQuery, setSearchQuery] = useState(""); // Sidebar search, shows results instead of matches
+  const [searchJump, setSearchJump] = useState<{
+    roomId: string;
+    messageId: string;
+  } | null>(null); // Search result to jump to once its room's history is in
 
   // Ref to hold the current user for use in callbacks without adding to dependencies
   const currentUserRef = useRef(currentUser);
@@ -62,12 +260,39 @@ export default function ChatPage() {
     currentUserRef.current = currentUser;
   }, [currentUser]);
 
+  // Ref to hold the loaded history for use in callbacks (e.g. after a reconnect)
+  const chatHistoryRef = useRef(chatHistory);
+  useEffect(() => {
+    chatHistoryRef.current = chatHistory;
+  }, [chatHistory]);
+
   // Ref to hold the current room ID for use in callbacks
   const currentRoomIdRef = useRef(currentRoomId);
   useEffect(() => {
     currentRoomIdRef.current = currentRoomId;
   }, [currentRoomId]);
 
+  // Live updates from the room and the sidebar's conversations
+  const {
+    presence,
+    typingByRoom,
+    readStates,
+    unreadSince,
+    pinsByRoom,
+    resetRoomEvents,
+  } = useChatRoomEvents({
+    socket,
+    currentUserRef,
+    currentRoomIdRef,
+    chatHistoryRef,
+    setChatHistory,
+    setChatError,
+    setMatches,
+    setGroups,
+    setPreviews,
+    setSelectedChatId,
+  });
+
   // Get current user session & profile, handle auth changes
   useEffect(() => {
     const getUserAndProfile = async () => {
@@ -110,6 +335,8 @@ export default function ChatPage() {
         if (previousUserId !== user?.id) {
           console.log("Auth state changed, user is now:", user?.id);
           setMatches([]);
+          setGroups([]);
+          setPreviews({});
           setChatHistory([]);
           setSelectedChatId(null);
           setCurrentRoomId(null);
@@ -143,6 +370,14 @@ export default function ChatPage() {
 
   const currentUserId = currentUser?.id; // Get ID from user object
 
+  // Messages waiting to be sent, kept across reloads and sent once connected
+  const { outbox, enqueue, resend, cancel } = useOutbox({
+    socket,
+    isConnected: isSocketConnected,
+    userId: currentUserId,
+    setChatHistory,
+  });
+
   // Fetch matches effect (depends on currentUserId)
   useEffect(() => {
     if (!currentUserId) {
@@ -175,205 +410,158 @@ export default function ChatPage() {
     fetchMatches();
   }, [currentUserId]); // Re-run when currentUserId changes
 
-  // ... (rest of the useEffect hooks for socket and room handling remain largely the same) ...
-  // Initialize Socket.IO effect
+  // Fetch the last message of every conversation. Again after reconnecting,
+  // as messages may have arrived while we were offline.
   useEffect(() => {
     if (!currentUserId) {
-      if (socket) {
-        console.log("No user ID, disconnecting socket.");
-        // Ensure listeners are removed before disconnecting
-        socket.off("connect");
-        socket.off("disconnect");
-        socket.off("connect_error");
-        socket.off("receiveMessage");
-        socket.disconnect();
-        socket = null;
-        setIsSocketConnected(false);
-      }
+      setPreviews({});
       return;
     }
+    if (!isSocketConnected) return;
 
-    // Only attempt connection if socket doesn't exist
-    if (!socket) {
-      console.log("Attempting socket connection for user:", currentUserId);
-
-      // Double-check: User might have logged out *before* connection attempt
-      // Also check if another effect instance already created the socket
-      if (!currentUserRef.current || socket) {
-        // Check socket again here
-        console.log(
-          "User logged out before connection or socket already exists. Aborting connection."
-        );
-        return;
-      }
-
-      console.log("Initializing IO client...");
-      const newSocket = io({
-        autoConnect: true,
-        transports: ["websocket"], // Force WebSocket transport
-      });
-      socket = newSocket; // Assign to module-level variable
-
-      newSocket.on("connect", () => {
-        const userId = currentUserRef.current?.id;
-        if (userId) {
-          console.log("Socket connected:", newSocket.id, "for user:", userId);
-          setIsSocketConnected(true);
-          newSocket.emit("registerUser", userId);
-        } else {
-          console.warn(
-            "Socket connected but user ID is missing in ref. Disconnecting."
+    const fetchPreviews = async () => {
+      try {
+        const response = await fetch("/api/conversations");
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(
+            errorData.error || `HTTP error! status: ${response.status}`
           );
-          newSocket.disconnect(); // Disconnect if user vanished
-          socket = null; // Nullify the socket ref
-          setIsSocketConnected(false);
-        }
-      });
-
-      newSocket.on("disconnect", (reason) => {
-        console.log("Socket disconnected:", reason);
-        setIsSocketConnected(false);
-        // Nullify the socket variable ONLY if it's the one we are handling
-        if (socket === newSocket) {
-          socket = null;
         }
-      });
-
-      newSocket.on("connect_error", (err) => {
-        console.error("Socket connection error:", err);
-        setIsSocketConnected(false);
-        if (socket === newSocket) {
-          socket = null; // Clean up on error too
-        }
-      });
+        const data: ConversationPreview[] = await response.json();
+        setPreviews(
+          Object.fromEntries(data.map((preview) => [preview.roomId, preview]))
+        );
+      } catch (error: any) {
+        // The sidebar still works without previews, just unsorted
+        console.error("Error fetching conversation previews:", error);
+      }
+    };
+    fetchPreviews();
+  }, [currentUserId, isSocketConnected]);
 
-      // Define the listener function separately
-      const receiveMessageHandler = (msg: {
-        text: string;
-        roomId: string;
-        senderId: string;
-      }) => {
-        const userId = currentUserRef.current?.id;
-        const activeRoomId = currentRoomIdRef.current; // Use the ref
-
-        // Ignore messages if sender is the current user
-        if (msg.senderId === userId) {
-          return;
-        }
+  // Keep relative times ("5m") in the sidebar current
+  useEffect(() => {
+    const interval = setInterval(() => setActivityTick((t) => t + 1), 60000);
+    return () => clearInterval(interval);
+  }, []);
 
-        // Message is from someone else
-        if (msg.roomId === activeRoomId) {
-          // Message for the currently active room
-          const newMessageId = `${msg.senderId}-${Date.now()}`;
-          // No longer need to set firstUnreadMessageId here
-
-          setChatHistory((prev) => [
-            ...prev,
-            {
-              id: newMessageId, // Use generated ID for optimistic update
-              text: msg.text,
-              sender: "other",
-              roomId: msg.roomId,
-              timestamp: Date.now(), // Add timestamp on receive
-              senderId: msg.senderId, // Add senderId to map DB data
-            },
-          ]);
-        } else {
-          // Optional TODO: Handle message for inactive room (e.g., show badge)
-          console.log(`Received message for inactive room: ${msg.roomId}`);
-        }
+  // The server dropped one of our events (too many too fast, or too large):
+  // say so until it's fine to go on
+  useEffect(() => {
+    if (!socket) return;
+    let clearTimer: ReturnType<typeof setTimeout> | null = null;
+    const rateLimitedHandler = (payload: RateLimitedPayload) => {
+      console.warn(`Rate limited (${payload.code}) on ${payload.event}`);
+      setSlowDownNotice(payload.message);
+      if (clearTimer) clearTimeout(clearTimer);
+      clearTimer = setTimeout(
+        () => setSlowDownNotice(null),
+        Math.max(payload.retryAfterMs, SLOW_DOWN_NOTICE_MS)
+      );
+    };
+    socket.on("rateLimited", rateLimitedHandler);
+    return () => {
+      socket.off("rateLimited", rateLimitedHandler);
+      if (clearTimer) clearTimeout(clearTimer);
+      setSlowDownNotice(null);
+    };
+  }, [socket]);
+
+  // Fetch one page of a room's history, returned oldest first. Without a
+  // cursor this is the latest page; with one, the page just before it.
+  const fetchHistoryPage = useCallback(
+    async (roomId: string, before?: ChatMessage) => {
+      let query = supabase
+        .from("chat_messages")
+        .select(HISTORY_COLUMNS)
+        .eq("room_id", roomId);
+      if (before?.created_at) {
+        // Keyset cursor: older than the oldest loaded message, ties broken by ID
+        query = query.or(
+          `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+        );
+      }
+      const { data, error } = await query
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(HISTORY_PAGE_SIZE + 1) // One extra row tells us if there's more
+        .overrideTypes<ChatMessageRow[], { merge: false }>();
+      if (error) throw error;
+
+      const rows = data || [];
+      return {
+        messages: rows
+          .slice(0, HISTORY_PAGE_SIZE)
+          .reverse()
+          .map((row) => fromDbMessage(row, currentUserId)),
+        hasMore: rows.length > HISTORY_PAGE_SIZE,
       };
+    },
+    [supabase, currentUserId]
+  );
 
-      // Attach the listener
-      newSocket.on("receiveMessage", receiveMessageHandler);
-
-      // Return cleanup function for this specific socket instance
-      return () => {
-        console.log("Cleaning up socket instance:", newSocket.id);
-        newSocket.off("connect");
-        newSocket.off("disconnect");
-        newSocket.off("connect_error");
-        newSocket.off("receiveMessage", receiveMessageHandler); // Remove specific listener
-        if (newSocket.connected) {
-          newSocket.disconnect();
-        }
-        // Only nullify the global socket if it's the one we are cleaning up
-        if (socket === newSocket) {
-          socket = null;
-          setIsSocketConnected(false);
-        }
-      };
+  // Load the page before the oldest loaded message (scrolling up)
+  const loadOlderMessages = useCallback(async () => {
+    const roomId = currentRoomIdRef.current;
+    if (!roomId || isLoadingOlderRef.current) return;
+    const oldest = chatHistoryRef.current.find(
+      (m) => m.roomId === roomId && m.created_at
+    );
+    if (!oldest) return;
+
+    isLoadingOlderRef.current = true;
+    setIsLoadingOlder(true);
+    try {
+      const { messages, hasMore } = await fetchHistoryPage(roomId, oldest);
+      if (roomId !== currentRoomIdRef.current) return; // Switched rooms meanwhile
+      console.log(`Fetched ${messages.length} older messages.`);
+      setChatHistory((prev) => mergeMessages(prev, messages));
+      setHasOlderMessages(hasMore);
+    } catch (error) {
+      console.error("Error fetching older messages:", error);
+    } finally {
+      isLoadingOlderRef.current = false;
+      setIsLoadingOlder(false);
     }
-
-    // Separate cleanup for the effect itself when currentUserId changes
-    return () => {
-      console.log("Socket effect cleanup due to user change:", currentUserId);
-      if (socket) {
-        console.log("Disconnecting existing socket due to user change.");
-        // Remove all listeners and disconnect
-        socket.removeAllListeners();
-        socket.disconnect();
-        socket = null;
-        setIsSocketConnected(false);
-      }
-    };
-    // Dependencies: Only re-run if the user ID changes.
-    // The connection logic itself handles the !socket condition internally.
-  }, [currentUserId]);
+  }, [fetchHistoryPage]);
 
   // Effect for joining/leaving rooms and fetching history
   useEffect(() => {
-    // Function to fetch history for a room
+    // Function to fetch the latest page of history for a room
     const fetchHistory = async (roomId: string) => {
-      // Ensure supabase client and user ID are available
-      if (!supabase || !currentUserId) {
-        console.warn(
-          "Supabase client or user ID not available for fetching history."
-        );
+      // Ensure the user ID is available
+      if (!currentUserId) {
+        console.warn("User ID not available for fetching history.");
         setChatHistory([]); // Clear history if prerequisites missing
         return;
       }
 
       console.log(`Fetching history for room: ${roomId}`);
+      setHasOlderMessages(false);
       try {
-        const { data, error } = await supabase
-          .from("chat_messages")
-          .select("id, room_id, sender_id, message_text, created_at")
-          .eq("room_id", roomId)
-          .order("created_at", { ascending: true }); // Fetch in chronological order
-
-        if (error) {
-          console.error("Error fetching chat history:", error);
-          setChatHistory([]); // Clear history on error
-          return;
-        }
-
-        if (data) {
-          const formattedHistory: ChatMessage[] = data.map((msg) => ({
-            id: msg.id, // Use DB ID
-            text: msg.message_text,
-            sender: msg.sender_id === currentUserId ? "me" : "other", // Determine sender based on currentUserId
-            roomId: msg.room_id,
-            timestamp: new Date(msg.created_at).getTime(), // Convert DB timestamp
-            senderId: msg.sender_id,
-            created_at: msg.created_at,
-          }));
-          console.log(`Fetched ${formattedHistory.length} messages.`);
-          setChatHistory(formattedHistory); // Replace local state with fetched history
-        } else {
-          console.log("No history found for this room.");
-          setChatHistory([]); // No history found for this room
-        }
+        const { messages, hasMore } = await fetchHistoryPage(roomId);
+        if (roomId !== currentRoomIdRef.current) return; // Switched rooms meanwhile
+        console.log(`Fetched ${messages.length} messages.`);
+        // Keep anything that arrived over the socket while loading
+        setChatHistory((prev) =>
+          mergeMessages(
+            prev.filter((m) => m.roomId === roomId),
+            messages
+          )
+        );
+        setHasOlderMessages(hasMore);
+        setHistoryRoomId(roomId);
       } catch (fetchError) {
-        console.error("Failed to execute fetch history query:", fetchError);
-        setChatHistory([]); // Clear history on unexpected error
+        console.error("Error fetching chat history:", fetchError);
+        setChatHistory([]); // Clear history on error
       }
     };
 
     // Determine the target room ID based on current state
     const targetRoomId =
       currentUserId && selectedChatId
-        ? createRoomId(currentUserId, selectedChatId)
+        ? toRoomId(currentUserId, selectedChatId)
         : null;
 
     // Only proceed if we have a target room and a connected socket
@@ -381,6 +569,9 @@ export default function ChatPage() {
       // Check if the room needs to change
       if (targetRoomId !== currentRoomIdRef.current) {
         console.log(`Joining room: ${targetRoomId}`);
+        setChatError(null); // Clear errors from the previous room
+        resetRoomEvents(targetRoomId); // Wait for its read:snapshot, drop stale typing
+        setVisibleRange(null); // Reported again once the new list renders
         socket.emit("joinRoom", targetRoomId);
         setCurrentRoomId(targetRoomId); // Update state
         fetchHistory(targetRoomId); // Fetch history for the new room
@@ -415,7 +606,9 @@ export default function ChatPage() {
     selectedChatId, // Re-run if selected chat changes
     currentUserId, // Re-run if user changes
     isSocketConnected, // Re-run if socket connection status changes
-    supabase, // Keep supabase as dependency for fetchHistory
+    socket, // Re-run if the shared connection is replaced
+    fetchHistoryPage, // Changes with supabase/currentUserId
+    resetRoomEvents, // Stable
     // currentRoomId is NOT needed here, managed via ref and state update
   ]);
 
@@ -424,21 +617,117 @@ export default function ChatPage() {
     (msg) => msg.roomId === currentRoomId
   );
 
-  // Determine the last viewed time for the current room (MOVED HERE)
-  const lastViewedTime = currentRoomId
-    ? lastViewedTimestamps[currentRoomId] || 0
-    : 0;
-
-  // Effect to scroll to bottom when chat history changes
+  // Queued (outbox) messages for the selected chat, shown after the history.
+  // Uses the selection rather than currentRoomId so they show while offline.
+  const selectedRoomId =
+    currentUserId && selectedChatId
+      ? toRoomId(currentUserId, selectedChatId)
+      : null;
+  const queuedMessages: ChatMessage[] = outbox
+    .filter((item) => item.roomId === selectedRoomId)
+    .map((item) => ({
+      id: item.clientId,
+      text: item.text,
+      sender: "me",
+      roomId: item.roomId,
+      timestamp: item.createdAt,
+      senderId: item.userId,
+      status: item.status,
+      error: item.error,
+      replyTo: item.replyTo,
+      attachment: item.attachment,
+    }));
+  const visibleMessages = [...filteredChatHistory, ...queuedMessages];
+
+  const selectedGroup = selectedChatId
+    ? groups.find((g) => g.roomId === selectedChatId)
+    : undefined;
+  const otherMemberIds = selectedGroup
+    ? selectedGroup.members
+        .map((m) => m.userId)
+        .filter((id) => id !== currentUserId)
+    : selectedChatId
+      ? [selectedChatId]
+      : [];
+
+  // Our own and the other members' read positions in the current room. Our
+  // messages count as read once every other member has read them.
+  const myLastReadAt =
+    currentRoomId && currentUserId
+      ? readStates[currentRoomId]?.[currentUserId]
+      : undefined;
+  const otherReadTimes = currentRoomId
+    ? otherMemberIds.map((id) => readStates[currentRoomId]?.[id])
+    : [];
+  const otherLastReadAt = otherReadTimes.every((t): t is string => !!t)
+    ? otherReadTimes.sort(
+        (a, b) => new Date(a).getTime() - new Date(b).getTime()
+      )[0]
+    : undefined;
+
+  // Track page visibility so messages in a background tab aren't marked read
+  useEffect(() => {
+    const handleVisibilityChange = () =>
+      setIsPageVisible(document.visibilityState === "visible");
+    handleVisibilityChange();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () =>
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, []);
+
+  // Mark messages from the other user as read once they've been on screen
+  // for a moment (the newest visible one covers everything before it)
   useEffect(() => {
-    // Scroll the messagesEndRef into view
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [filteredChatHistory]); // Dependency: run when filtered history changes
+    if (
+      !visibleRange ||
+      !socket ||
+      !currentRoomId ||
+      !isSocketConnected ||
+      !isPageVisible
+    ) {
+      return;
+    }
+    const roomId = currentRoomId;
+    const readTime = myLastReadAt ? new Date(myLastReadAt).getTime() : 0;
+    // The list shows the room's history followed by queued (own) messages,
+    // so the visible indexes line up with the room's history
+    const latestSeen = chatHistory
+      .filter((msg) => msg.roomId === roomId)
+      .slice(visibleRange.start, visibleRange.end + 1)
+      .reverse()
+      .find(
+        (msg) =>
+          msg.sender === "other" &&
+          msg.created_at &&
+          new Date(msg.created_at).getTime() > readTime
+      );
+    if (!latestSeen) return;
+
+    const timer = setTimeout(() => {
+      socket.emit("read:mark", { roomId, messageId: latestSeen.id });
+    }, READ_MARK_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [
+    visibleRange,
+    chatHistory,
+    currentRoomId,
+    socket,
+    isSocketConnected,
+    isPageVisible,
+    myLastReadAt,
+  ]);
 
-  // Find the index of the first unread message from the other user
-  // Only search if the user has actually viewed the chat before (lastViewedTime > 0)
+  // Report from the message list, only called when the indexes change
+  const handleVisibleRangeChange = useCallback(
+    (start: number, end: number) => setVisibleRange({ start, end }),
+    []
+  );
+
+  // Find the index of the first unread message from the other user, based on
+  // our server-side read position when the room was opened
+  const unreadSinceTime = unreadSince ? new Date(unreadSince).getTime() : 0;
   const firstUnreadIndex =
-    lastViewedTime > 0
+    unreadSince !== undefined
       ? filteredChatHistory.findIndex((msg) => {
           const isMe = msg.sender === "me";
           // Prefer DB timestamp if available, otherwise use client timestamp
@@ -447,157 +736,971 @@ export default function ChatPage() {
             : msg.timestamp;
           const isValidTime =
             typeof messageTime === "number" && !isNaN(messageTime);
-          // Condition: Valid time, after last view, and not sent by the current user
-          return isValidTime && messageTime > lastViewedTime && !isMe;
+          // Condition: Valid time, after our read position, and not sent by the current user
+          return isValidTime && messageTime > unreadSinceTime && !isMe;
         })
-      : -1; // If lastViewedTime is 0, set index to -1 (no separator)
+      : -1; // Read state not loaded yet, no separator
 
-  // handleSend function: Save message to DB then emit
-  const handleSend = async (e: React.FormEvent) => {
-    // Make async
-    e.preventDefault();
-    // Add explicit check for socket existence and connection
-    if (
-      supabase && // Check supabase client
-      socket &&
-      isSocketConnected &&
-      message.trim() &&
-      currentRoomId &&
-      selectedChatId &&
-      currentUserId
-    ) {
-      const tempId = `${currentUserId}-${Date.now()}`; // Temporary ID for UI update
-      const messageText = message; // Store message before clearing
-      setMessage(""); // Clear input immediately for better UX
-
-      // 1. Optimistically update UI
-      const newMessage: ChatMessage = {
-        id: tempId, // Use temporary ID
-        text: messageText,
-        sender: "me",
-        roomId: currentRoomId,
-        timestamp: Date.now(),
-        senderId: currentUserId,
-      };
-      setChatHistory((prev) => [...prev, newMessage]);
+  // Scroll to the message we jumped to once it's in the list, then
+  // highlight it briefly
+  useEffect(() => {
+    if (!jumpTargetId) return;
+    const index = filteredChatHistory.findIndex((m) => m.id === jumpTargetId);
+    if (index === -1) return;
+    messageListRef.current?.scrollToIndex(index);
+    setHighlightedMessageId(jumpTargetId);
+    setJumpTargetId(null);
+  }, [jumpTargetId, filteredChatHistory]);
 
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  // handleSend function: Queue a new message (its file is already uploaded)
+  // in the outbox, replying to the quoted message if any
+  const handleSend = (text: string, attachment?: ChatAttachment) => {
+    if (!selectedRoomId || !currentUserId) return;
+    enqueue({
+      clientId: crypto.randomUUID(), // Lets the server drop duplicate retries
+      userId: currentUserId,
+      roomId: selectedRoomId,
+      text,
+      replyTo: replyingTo
+        ? {
+            id: replyingTo.id,
+            senderId: replyingTo.senderId,
+            text: replyingTo.text,
+            deletedAt: null,
+          }
+        : undefined,
+      attachment,
+      createdAt: Date.now(),
+      status: "pending",
+    });
+    setReplyingTo(null);
+  };
+
+  // Quote a message in the composer; the next message sent replies to it
+  const startReply = (msg: ChatMessage) => {
+    if (editingMessage) cancelEditing();
+    setReplyingTo(msg);
+  };
+
+  // Scroll to a message (e.g. a reply's original or a search result),
+  // loading older pages until it's found
+  const jumpToMessage = useCallback(
+    async (messageId: string) => {
+      const roomId = currentRoomIdRef.current;
+      if (!roomId) return;
+      if (chatHistoryRef.current.some((m) => m.id === messageId)) {
+        setJumpTargetId(messageId);
+        return;
+      }
+      if (isLoadingOlderRef.current) {
+        setPendingJump({ roomId, messageId }); // Try again once that page is in
+        return;
+      }
+
+      isLoadingOlderRef.current = true;
+      setIsLoadingOlder(true);
+      const loaded: ChatMessage[] = [];
+      let oldest = chatHistoryRef.current.find(
+        (m) => m.roomId === roomId && m.created_at
+      );
+      let hasMore = hasOlderMessages;
+      let found = false;
       try {
-        // 2. Save message to Supabase
-        const { data: insertedMessage, error } = await supabase
-          .from("chat_messages")
-          .insert({
-            room_id: currentRoomId,
-            sender_id: currentUserId,
-            message_text: messageText,
-          })
-          .select("id, created_at") // Select the generated ID and timestamp
-          .single(); // Expect a single row back
-
-        if (error) {
-          console.error("Error saving message:", error);
-          // Revert optimistic update or show error
-          setChatHistory((prev) => prev.filter((msg) => msg.id !== tempId));
-          setMessage(messageText); // Restore input field
-          // Optionally show a toast notification for the error
-          return; // Stop if DB insert failed
+        while (!found && hasMore && oldest) {
+          const page = await fetchHistoryPage(roomId, oldest);
+          if (roomId !== currentRoomIdRef.current) return; // Switched rooms meanwhile
+          loaded.unshift(...page.messages);
+          found = page.messages.some((m) => m.id === messageId);
+          hasMore = page.hasMore;
+          oldest = page.messages[0];
         }
+      } catch (error) {
+        console.error("Error fetching older messages:", error);
+      } finally {
+        isLoadingOlderRef.current = false;
+        setIsLoadingOlder(false);
+      }
 
-        // Optional: Update the message in state with the real ID and timestamp from DB
-        if (insertedMessage) {
-          setChatHistory((prev) =>
-            prev.map((msg) =>
-              msg.id === tempId
-                ? {
-                    ...msg,
-                    id: insertedMessage.id, // Update with real DB ID
-                    timestamp: new Date(insertedMessage.created_at).getTime(), // Update with real DB timestamp
-                    created_at: insertedMessage.created_at,
-                  }
-                : msg
-            )
-          );
-        }
+      if (roomId !== currentRoomIdRef.current) return;
+      setChatHistory((prev) => mergeMessages(prev, loaded));
+      setHasOlderMessages(hasMore);
+      if (found) {
+        setJumpTargetId(messageId);
+      } else {
+        setChatError("That message couldn't be found.");
+      }
+    },
+    [fetchHistoryPage, hasOlderMessages]
+  );
 
-        // 3. Emit message via Socket.IO
-        socket.emit("sendMessage", {
-          text: messageText,
-          roomId: currentRoomId,
-          senderId: currentUserId,
-          // You could include the DB id/timestamp here if needed by receiver
-          // dbId: insertedMessage?.id,
-          // dbTimestamp: insertedMessage?.created_at
+  // Resume a jump that had to wait for a page load to finish
+  useEffect(() => {
+    if (!pendingJump || isLoadingOlder) return;
+    setPendingJump(null);
+    if (pendingJump.roomId === currentRoomId) {
+      jumpToMessage(pendingJump.messageId);
+    }
+  }, [pendingJump, isLoadingOlder, currentRoomId, jumpToMessage]);
+
+  // Load one of our messages into the composer for editing
+  const startEditing = (msg: ChatMessage) => {
+    setReplyingTo(null);
+    setEditingMessage(msg);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+  };
+
+  // Apply an acknowledged edit/delete locally (the room gets it via broadcast)
+  const applyMessageChange = (ack: MessageChangeAck): boolean => {
+    if (!ack.ok) {
+      console.error(`Error changing message (${ack.code}):`, ack.message);
+      setChatError(ack.message);
+      return false;
+    }
+    const updated = fromSocketMessage(ack.message, currentUserId);
+    setChatHistory((prev) => replaceMessage(prev, updated));
+    return true;
+  };
+
+  // Edits aren't queued like new messages - they need a live connection
+  const handleSaveEdit = async (target: ChatMessage, text: string) => {
+    if (!text.trim()) return;
+    if (text === target.text) {
+      cancelEditing(); // Nothing changed
+      return;
+    }
+    if (!socket || !isSocketConnected) {
+      setChatError("You're offline - reconnect to edit messages.");
+      return;
+    }
+    try {
+      const ack: MessageChangeAck = await socket
+        .timeout(SEND_ACK_TIMEOUT_MS)
+        .emitWithAck("message:edit", {
+          roomId: target.roomId,
+          messageId: target.id,
+          text,
+        });
+      if (applyMessageChange(ack)) cancelEditing();
+    } catch (err) {
+      console.warn("No acknowledgement for message edit:", err);
+      setChatError("The edit could not be saved. Please try again.");
+    }
+  };
+
+  const handleDeleteMessage = async (target: ChatMessage) => {
+    setMessageToDelete(null);
+    if (!socket || !isSocketConnected) {
+      setChatError("You're offline - reconnect to delete messages.");
+      return;
+    }
+    try {
+      const ack: MessageChangeAck = await socket
+        .timeout(SEND_ACK_TIMEOUT_MS)
+        .emitWithAck("message:delete", {
+          roomId: target.roomId,
+          messageId: target.id,
         });
-      } catch (dbError) {
-        console.error("Database operation failed:", dbError);
-        // Handle potential errors during the async operation
-        setChatHistory((prev) => prev.filter((msg) => msg.id !== tempId));
-        setMessage(messageText);
+      if (applyMessageChange(ack) && editingMessage?.id === target.id) {
+        cancelEditing();
       }
-    } else {
-      console.warn("Cannot send message:", {
-        hasMessage: !!message.trim(),
-        isConnected: isSocketConnected,
-        hasRoom: !!currentRoomId,
-        hasSelectedChat: !!selectedChatId,
-        hasUser: !!currentUserId,
-        hasSocket: !!socket,
-        isSocketReallyConnected: socket?.connected,
-        hasSupabase: !!supabase, // Log if supabase client exists
+    } catch (err) {
+      console.warn("No acknowledgement for message delete:", err);
+      setChatError("The message could not be deleted. Please try again.");
+    }
+  };
+
+  // React to a message, or remove our reaction if it's the same emoji. The
+  // change is shown once the server broadcasts it back to the room.
+  const handleToggleReaction = async (target: ChatMessage, emoji: string) => {
+    setReactionPickerFor(null);
+    if (!socket || !isSocketConnected) {
+      setChatError("You're offline - reconnect to react to messages.");
+      return;
+    }
+    try {
+      const ack: ToggleReactionAck = await socket
+        .timeout(SEND_ACK_TIMEOUT_MS)
+        .emitWithAck("reaction:toggle", {
+          roomId: target.roomId,
+          messageId: target.id,
+          emoji,
+        });
+      if (!ack.ok) {
+        console.error(`Error saving reaction (${ack.code}):`, ack.message);
+        setChatError(ack.message);
+      }
+    } catch (err) {
+      console.warn("No acknowledgement for reaction:", err);
+      setChatError("The reaction could not be saved. Please try again.");
+    }
+  };
+
+  // Pin or unpin a message for everyone in the conversation; the room gets
+  // the new list with pins:update
+  const handleTogglePin = async (
+    roomId: string,
+    messageId: string,
+    pinned: boolean
+  ) => {
+    if (!socket || !isSocketConnected) {
+      setChatError("You're offline - reconnect to pin messages.");
+      return;
+    }
+    try {
+      const ack: PinMessageAck = await socket
+        .timeout(SEND_ACK_TIMEOUT_MS)
+        .emitWithAck("message:pin", { roomId, messageId, pinned });
+      if (!ack.ok) {
+        console.error(`Error saving pin (${ack.code}):`, ack.message);
+        setChatError(ack.message);
+      } else if (pinned) {
+        setIsPinnedBarOpen(true);
+      }
+    } catch (err) {
+      console.warn("No acknowledgement for pin:", err);
+      setChatError("The pin could not be saved. Please try again.");
+    }
+  };
+
+  // Accept or decline a proposed study session; every member's card is
+  // updated with session:update
+  const handleRespondToSession = async (
+    session: StudySession,
+    response: "accept" | "decline"
+  ) => {
+    if (!socket || !isSocketConnected) {
+      setChatError("You're offline - reconnect to answer proposals.");
+      return;
+    }
+    try {
+      const ack: RespondToSessionAck = await socket
+        .timeout(SEND_ACK_TIMEOUT_MS)
+        .emitWithAck("session:respond", { sessionId: session.id, response });
+      if (!ack.ok) {
+        console.error(`Error answering session (${ack.code}):`, ack.message);
+        setChatError(ack.message);
+      }
+    } catch (err) {
+      console.warn("No acknowledgement for session answer:", err);
+      setChatError("Your answer could not be saved. Please try again.");
+    }
+  };
+
+  // Long-press on touch screens opens the reaction picker (there's no hover)
+  const startLongPress = (messageId: string) => {
+    cancelLongPress();
+    longPressTimerRef.current = setTimeout(
+      () => setReactionPickerFor(messageId),
+      LONG_PRESS_MS
+    );
+  };
+
+  const cancelLongPress = () => {
+    if (longPressTimerRef.current) {
+      clearTimeout(longPressTimerRef.current);
+      longPressTimerRef.current = null;
+    }
+  };
+
+  // Function to handle selecting a chat (a match's user ID or a group room ID)
+  const handleSelectChat = (chatId: string) => {
+    if (editingMessage) cancelEditing(); // An edit belongs to its conversation
+    setReplyingTo(null); // So does a reply
+    setSelectedChatId(chatId);
+  };
+
+  // Send a group change to the server. Every member (incl. our other tabs)
+  // also gets the result as group:update.
+  // @returns An error message to show, or null on success
+  const sendGroupChange = async (
+    event: "group:create" | "group:invite" | "group:rename" | "group:leave",
+    payload: { groupId?: string; name?: string; memberIds?: string[] }
+  ): Promise<string | null> => {
+    if (!socket || !isSocketConnected) {
+      return "You're offline - reconnect to manage groups.";
+    }
+    try {
+      const ack: GroupChangeAck = await socket
+        .timeout(SEND_ACK_TIMEOUT_MS)
+        .emitWithAck(event, payload);
+      if (!ack.ok) {
+        console.error(`Error changing group (${ack.code}):`, ack.message);
+        return ack.message;
+      }
+      if (event === "group:create") {
+        setGroups((prev) => upsertGroup(prev, ack.group));
+        handleSelectChat(ack.group.roomId);
+      }
+      return null;
+    } catch (err) {
+      console.warn(`No acknowledgement for ${event}:`, err);
+      return "The group could not be updated. Please try again.";
+    }
+  };
+
+  // Leaving closes the conversation once the server confirms (group:left)
+  const handleLeaveGroup = async (group: ChatGroup) => {
+    setIsLeaveGroupOpen(false);
+    const problem = await sendGroupChange("group:leave", {
+      groupId: group.id,
+    });
+    if (problem) setChatError(problem);
+  };
+
+  // Download the whole conversation (not just the loaded pages) as a file
+  // the server generates
+  const handleExport = async (exportFormat: ExportFormat) => {
+    if (!currentRoomId || isExporting) return;
+    setIsExporting(true);
+    try {
+      const params = new URLSearchParams({
+        roomId: currentRoomId,
+        format: exportFormat,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       });
+      const response = await fetch(`/api/conversations/export?${params}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(
+          errorData.error || `HTTP error! status: ${response.status}`
+        );
+      }
+      const fileName =
+        response.headers
+          .get("Content-Disposition")
+          ?.match(/filename="([^"]+)"/)?.[1] ?? "conversation";
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      // Revoke after the click has started the download
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (error: any) {
+      console.error("Error exporting conversation:", error);
+      setChatError("The conversation could not be exported. Please try again.");
+    } finally {
+      setIsExporting(false);
     }
   };
 
-  // Function to handle selecting a chat
-  const handleSelectChat = (matchId: string) => {
-    setSelectedChatId(matchId);
+  // Unmatched or blocked the open 1:1 chat's match. The server also sends
+  // roomClosed, this just doesn't wait for it.
+  const handleUserActionDone = (_action: UserAction, userId: string) => {
+    setMatches((prev) => prev.filter((m) => m.id !== userId));
+    if (selectedChatId === userId) {
+      setSelectedChatId(null);
+      setChatHistory([]);
+    }
   };
 
-  const selectedChatName =
-    matches.find((m) => m.id === selectedChatId)?.name || "Chat";
+  // Open the conversation of a search result; the jump happens below once
+  // the room's history has loaded
+  const handleSelectSearchResult = (result: MessageSearchResult) => {
+    const chatId = isGroupRoomId(result.roomId)
+      ? result.roomId
+      : result.roomId.split("--").find((id) => id !== currentUserId);
+    if (!chatId) return;
+    if (chatId !== selectedChatId) handleSelectChat(chatId);
+    setSearchJump({ roomId: result.roomId, messageId: result.messageId });
+  };
+
+  useEffect(() => {
+    if (
+      !searchJump ||
+      searchJump.roomId !== currentRoomId ||
+      historyRoomId !== currentRoomId
+    ) {
+      return;
+    }
+    setSearchJump(null);
+    jumpToMessage(searchJump.messageId);
+  }, [searchJump, currentRoomId, historyRoomId, jumpToMessage]);
+
+  // Name and avatar of someone we chat with: a match, or a member of one
+  // of our groups (group members needn't be our matches)
+  const getProfile = (userId: string) => {
+    const match = matches.find((m) => m.id === userId);
+    if (match) return { name: match.name, avatarUrl: match.avatar_url };
+    for (const group of groups) {
+      const member = group.members.find((m) => m.userId === userId);
+      if (member) return { name: member.name, avatarUrl: member.avatarUrl };
+    }
+    return undefined;
+  };
 
-  // Render Loading/Error states for matches
-  let matchesContent;
+  // Display name of a conversation by room ID (e.g. for search results)
+  const getConversationName = (roomId: string) => {
+    if (isGroupRoomId(roomId)) {
+      return groups.find((g) => g.roomId === roomId)?.name || "Group";
+    }
+    const otherUserId = roomId.split("--").find((id) => id !== currentUserId);
+    return (otherUserId && getProfile(otherUserId)?.name) || "Unknown User";
+  };
+
+  const selectedChatName = selectedGroup
+    ? selectedGroup.name
+    : matches.find((m) => m.id === selectedChatId)?.name || "Chat";
+  const selectedChatPresence = selectedGroup
+    ? `${selectedGroup.members.length} members: ${selectedGroup.members
+        .map((m) => (m.userId === currentUserId ? "You" : m.name))
+        .join(", ")}`
+    : selectedChatId
+      ? formatPresence(presence[selectedChatId])
+      : null;
+  // Shared by the group and 1:1 header menus
+  const exportMenu = (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger disabled={isExporting}>
+        <Download className="mr-2 h-4 w-4" />
+        Export conversation
+      </DropdownMenuSubTrigger>
+      <DropdownMenuSubContent className="border-blue-500/20 bg-gray-800 text-white">
+        {EXPORT_FORMATS.map(({ value, label }) => (
+          <DropdownMenuItem key={value} onSelect={() => handleExport(value)}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  );
+  const currentPins = currentRoomId ? pinsByRoom[currentRoomId] || [] : [];
+  const typingNames = (currentRoomId ? typingByRoom[currentRoomId] || [] : [])
+    .filter((id) => id !== currentUserId)
+    .map((id) => getProfile(id)?.name || "Someone");
+
+  // Compact "Name: text" quote of a replied-to message, using the loaded
+  // version if we have it (it may have been edited or deleted since)
+  const renderQuote = (quote: MessageQuote) => {
+    const original = chatHistory.find((m) => m.id === quote.id);
+    const name =
+      quote.senderId === currentUserId
+        ? "You"
+        : getProfile(quote.senderId)?.name || "Unknown User";
+    const isDeleted = !!(original ? original.deletedAt : quote.deletedAt);
+    return (
+      <>
+        <span className="font-semibold">{name}: </span>
+        {isDeleted ? (
+          <span className="italic">Message deleted</span>
+        ) : (
+          <span className="line-clamp-2">
+            {(original?.text ?? quote.text) || "Attachment"}
+          </span>
+        )}
+      </>
+    );
+  };
+
+  // Render one message of the open conversation (used by the virtualized list)
+  const renderMessage = (msg: ChatMessage, index: number) => {
+    // Determine sender information
+    const isMe = msg.sender === "me";
+    const senderId = msg.senderId;
+
+    // Find the match or group member details for the 'other' sender
+    const otherProfile = getProfile(senderId);
+
+    // Determine name and avatar URL based on sender
+    const senderName = isMe
+      ? currentUser?.user_metadata?.name || "Me"
+      : otherProfile?.name || "Unknown User";
+
+    const avatarUrl = isMe
+      ? currentUserProfile?.avatar_url // Use current user's profile avatar
+      : otherProfile?.avatarUrl; // Use the sender's avatar
+
+    // Fallback avatar using DiceBear if URL is missing
+    const fallbackAvatarUrl = `https://api.dicebear.com/8.x/initials/svg?seed=${senderName}`;
+
+    // Determine message time (prefer DB timestamp)
+    const messageTime = msg.created_at
+      ? new Date(msg.created_at).getTime()
+      : msg.timestamp;
+    const isValidTime = typeof messageTime === "number" && !isNaN(messageTime);
+
+    // Determine if the separator should be shown *at this specific index*
+    const showSeparator = index === firstUnreadIndex; // Show only at the found index
+
+    const isDeleted = !!msg.deletedAt;
+    const canChange = canChangeMessage(msg);
+    // Only stored messages can get reactions
+    const canReact = !!msg.created_at && !msg.status && !isDeleted;
+    const isPinned = currentPins.some((pin) => pin.message.id === msg.id);
+    const reactionGroups = isDeleted
+      ? []
+      : groupReactions(msg.reactions, currentUserId);
+
+    // Receipt status of our own messages: failed or sending (still
+    // in the outbox), delivered (stored) or read
+    const receipt = !isMe
+      ? null
+      : msg.status === "failed"
+        ? "failed"
+        : msg.status === "pending" || !msg.created_at
+          ? "sending"
+          : otherLastReadAt &&
+              new Date(otherLastReadAt).getTime() >=
+                new Date(msg.created_at).getTime()
+            ? "read"
+            : "delivered";
+
+    return (
+      // Use a simple div wrapper for the key
+      <div key={msg.id}>
+        {/* Render separator if this is the first unread message */}
+        {showSeparator && (
+          <div className="relative my-4">
+            <div className="absolute inset-0 flex items-center">
+              <span className="w-full border-t border-red-500" />
+            </div>
+            <div className="relative flex justify-center">
+              <span className="bg-gray-900 px-2 text-xs text-red-500">
+                New Messages
+              </span>
+            </div>
+          </div>
+        )}
+        {/* Original Message Div */}
+        <div
+          className={`group flex gap-x-3 ${
+            // Add gap for avatar
+            isMe ? "justify-end" : "justify-start"
+          }`}
+        >
+          {/* Avatar for 'other' sender (left side) */}
+          {!isMe && (
+            <Avatar className="h-8 w-8">
+              <AvatarImage
+                src={avatarUrl || fallbackAvatarUrl}
+                alt={senderName}
+              />
+              <AvatarFallback>
+                {senderName?.substring(0, 2) || "???"}
+              </AvatarFallback>
+            </Avatar>
+          )}
+
+          {/* Message Bubble and Timestamp */}
+          <div
+            className={`flex flex-col ${
+              // Group bubble and time
+              isMe ? "items-end" : "items-start"
+            }`}
+          >
+            {/* In groups, say who wrote it */}
+            {selectedGroup && !isMe && (
+              <span className="mb-1 px-1 text-xs font-semibold text-blue-300">
+                {senderName}
+              </span>
+            )}
+            <div
+              onTouchStart={canReact ? () => startLongPress(msg.id) : undefined}
+              onTouchEnd={cancelLongPress}
+              onTouchMove={cancelLongPress}
+              className={`${
+                isDeleted
+                  ? "border border-gray-700 bg-transparent text-gray-400"
+                  : isMe
+                    ? "bg-blue-600"
+                    : "bg-gray-700"
+              } text-white rounded-lg p-3 max-w-md break-words ${
+                editingMessage?.id === msg.id || replyingTo?.id === msg.id
+                  ? "ring-2 ring-blue-300"
+                  : ""
+              } ${
+                highlightedMessageId === msg.id
+                  ? "ring-2 ring-yellow-400 transition-shadow"
+                  : ""
+              }`}
+            >
+              {msg.replyTo && !isDeleted && (
+                <button
+                  type="button"
+                  className="mb-2 block w-full rounded border-l-2 border-white/60 bg-black/20 px-2 py-1 text-left text-xs hover:bg-black/30"
+                  onClick={() => jumpToMessage(msg.replyTo!.id)}
+                >
+                  {renderQuote(msg.replyTo)}
+                </button>
+              )}
+              {msg.attachment && !isDeleted && (
+                <ChatAttachmentView attachment={msg.attachment} />
+              )}
+              {isDeleted ? (
+                <p className="italic text-gray-400">Message deleted</p>
+              ) : msg.session ? (
+                <StudySessionCard
+                  session={msg.session}
+                  currentUserId={currentUserId}
+                  getName={(userId) =>
+                    getProfile(userId)?.name || "Unknown User"
+                  }
+                  onRespond={handleRespondToSession}
+                  onSuggestTime={(session) =>
+                    setSessionTarget({
+                      roomId: session.roomId,
+                      replaces: session,
+                    })
+                  }
+                />
+              ) : (
+                msg.text && <ChatMarkdown text={msg.text} />
+              )}
+            </div>
+            {reactionGroups.length > 0 && (
+              <div className="mt-1 flex flex-wrap gap-1">
+                {reactionGroups.map(({ emoji, count, mine }) => (
+                  <button
+                    key={emoji}
+                    type="button"
+                    className={`rounded-full border px-2 py-0.5 text-xs ${
+                      mine
+                        ? "border-blue-400 bg-blue-500/20"
+                        : "border-gray-600 bg-gray-800 hover:bg-gray-700"
+                    }`}
+                    onClick={() => handleToggleReaction(msg, emoji)}
+                    aria-pressed={mine}
+                  >
+                    {emoji} {count}
+                  </button>
+                ))}
+              </div>
+            )}
+            <span className="text-xs text-gray-400 mt-1 px-1 flex items-center gap-x-1">
+              {new Date(msg.timestamp).toLocaleString([], {
+                day: "2-digit",
+                month: "2-digit",
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+              {msg.editedAt && !isDeleted && <span>(edited)</span>}
+              {canReact && (
+                <Popover
+                  open={reactionPickerFor === msg.id}
+                  onOpenChange={(open) =>
+                    setReactionPickerFor(open ? msg.id : null)
+                  }
+                >
+                  <PopoverTrigger asChild>
+                    <button
+                      type="button"
+                      className={`hover:text-white ${
+                        reactionPickerFor === msg.id
+                          ? "opacity-100"
+                          : "opacity-0 transition-opacity group-hover:opacity-100 group-focus-within:opacity-100"
+                      }`}
+                      aria-label="Add reaction"
+                    >
+                      <SmilePlus className="h-3 w-3" />
+                    </button>
+                  </PopoverTrigger>
+                  <PopoverContent
+                    side="top"
+                    className="flex w-auto gap-x-1 border-blue-500/20 bg-gray-800 p-1"
+                  >
+                    {REACTION_EMOJIS.map((emoji) => (
+                      <button
+                        key={emoji}
+                        type="button"
+                        className={`rounded p-1 text-lg hover:bg-gray-700 ${
+                          msg.reactions?.[currentUserId ?? ""] === emoji
+                            ? "bg-blue-500/30"
+                            : ""
+                        }`}
+                        onClick={() => handleToggleReaction(msg, emoji)}
+                        aria-label={`React with ${emoji}`}
+                      >
+                        {emoji}
+                      </button>
+                    ))}
+                  </PopoverContent>
+                </Popover>
+              )}
+              {canReact && (
+                <button
+                  type="button"
+                  className="opacity-0 transition-opacity hover:text-white group-hover:opacity-100 group-focus-within:opacity-100"
+                  onClick={() => startReply(msg)}
+                  aria-label="Reply"
+                >
+                  <Reply className="h-3 w-3" />
+                </button>
+              )}
+              {canReact && (
+                <button
+                  type="button"
+                  className={`hover:text-white ${
+                    isPinned
+                      ? "text-yellow-400"
+                      : "opacity-0 transition-opacity group-hover:opacity-100 group-focus-within:opacity-100"
+                  }`}
+                  onClick={() => handleTogglePin(msg.roomId, msg.id, !isPinned)}
+                  aria-label={isPinned ? "Unpin message" : "Pin message"}
+                  aria-pressed={isPinned}
+                >
+                  <Pin className="h-3 w-3" />
+                </button>
+              )}
+              {canReact && !isMe && (
+                <button
+                  type="button"
+                  className="opacity-0 transition-opacity hover:text-red-400 group-hover:opacity-100 group-focus-within:opacity-100"
+                  onClick={() =>
+                    setReportTarget({
+                      kind: "message",
+                      messageId: msg.id,
+                      roomId: msg.roomId,
+                      userName: senderName,
+                    })
+                  }
+                  aria-label="Report message"
+                >
+                  <Flag className="h-3 w-3" />
+                </button>
+              )}
+              {canChange && (
+                <span className="flex items-center gap-x-1 opacity-0 transition-opacity group-hover:opacity-100 group-focus-within:opacity-100">
+                  {/* Proposals can be deleted, but not edited */}
+                  {!msg.session && (
+                    <button
+                      type="button"
+                      className="hover:text-white"
+                      onClick={() => startEditing(msg)}
+                      aria-label="Edit message"
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className="hover:text-red-400"
+                    onClick={() => setMessageToDelete(msg)}
+                    aria-label="Delete message"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </span>
+              )}
+              {receipt === "sending" && (
+                <Clock className="h-3 w-3" aria-label="Sending" />
+              )}
+              {receipt === "delivered" && (
+                <Check className="h-3 w-3" aria-label="Delivered" />
+              )}
+              {receipt === "failed" && (
+                <AlertCircle
+                  className="h-3 w-3 text-red-500"
+                  aria-label="Not sent"
+                />
+              )}
+              {receipt === "read" && (
+                <CheckCheck
+                  className="h-3 w-3 text-blue-400"
+                  aria-label="Read"
+                />
+              )}
+            </span>
+            {receipt === "failed" && (
+              <div className="flex items-center gap-x-2 px-1 text-xs text-red-400">
+                <span>{msg.error || "Not sent"}</span>
+                <button
+                  type="button"
+                  className="underline hover:text-red-300"
+                  onClick={() => resend(msg.id)}
+                >
+                  Resend
+                </button>
+                <button
+                  type="button"
+                  className="underline hover:text-red-300"
+                  onClick={() => cancel(msg.id)}
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Avatar for 'me' sender (right side) */}
+          {isMe && (
+            <Avatar className="h-8 w-8">
+              <AvatarImage
+                src={avatarUrl || fallbackAvatarUrl}
+                alt={senderName}
+              />
+              <AvatarFallback>
+                {senderName?.substring(0, 2) || "Me"}
+              </AvatarFallback>
+            </Avatar>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  // One line summing up a conversation's last message ("You: See you at 5")
+  const getPreviewText = (
+    roomId: string,
+    lastMessage: LastMessagePreview
+  ): string => {
+    if (lastMessage.deleted) return "Message deleted";
+    const body = lastMessage.text.trim()
+      ? lastMessage.text
+      : lastMessage.hasAttachment
+        ? "Sent an attachment"
+        : "";
+    if (lastMessage.senderId === currentUserId) return `You: ${body}`;
+    // In groups, say who wrote it
+    if (isGroupRoomId(roomId)) {
+      const senderName = getProfile(lastMessage.senderId)?.name;
+      return `${senderName?.split(" ")[0] || "Someone"}: ${body}`;
+    }
+    return body;
+  };
+
+  // Groups and 1:1 chats together, most recent activity first. Groups
+  // without messages count from their creation, other empty chats go last.
+  const conversations = currentUserId
+    ? [
+        ...groups.map((group) => ({
+          roomId: group.roomId,
+          group,
+          match: undefined,
+        })),
+        ...matches.map((match) => ({
+          roomId: createRoomId(currentUserId, match.id),
+          group: undefined,
+          match,
+        })),
+      ]
+        .map((conversation) => ({
+          ...conversation,
+          lastMessage: previews[conversation.roomId]?.lastMessage ?? null,
+        }))
+        .map((conversation) => ({
+          ...conversation,
+          activityAt:
+            conversation.lastMessage?.createdAt ??
+            conversation.group?.createdAt ??
+            null,
+        }))
+        .sort((a, b) => {
+          if (!a.activityAt || !b.activityAt) {
+            return a.activityAt ? -1 : b.activityAt ? 1 : 0;
+          }
+          return (
+            new Date(b.activityAt).getTime() - new Date(a.activityAt).getTime()
+          );
+        })
+    : [];
+
+  // Render Loading/Error states for the conversation list
+  let conversationsContent;
   if (!currentUser && !isLoadingMatches) {
     // Handle logged out state explicitly
-    matchesContent = <p className="text-gray-400 p-4">Please log in.</p>;
+    conversationsContent = <p className="text-gray-400 p-4">Please log in.</p>;
   } else if (isLoadingMatches) {
-    matchesContent = <p className="text-gray-400 p-4">Loading matches...</p>;
+    conversationsContent = (
+      <p className="text-gray-400 p-4">Loading matches...</p>
+    );
   } else if (errorMatches) {
-    matchesContent = <p className="text-red-500 p-4">Error: {errorMatches}</p>;
-  } else if (matches.length === 0) {
-    matchesContent = <p className="text-gray-400 p-4">No matches found.</p>;
+    conversationsContent = (
+      <p className="text-red-500 p-4">Error: {errorMatches}</p>
+    );
+  } else if (conversations.length === 0) {
+    conversationsContent = (
+      <p className="text-gray-400 p-4">No matches found.</p>
+    );
   } else {
-    matchesContent = matches.map((match) => {
-      return (
-        <Button
-          key={match.id}
-          variant="ghost"
-          className={`w-full justify-start p-3 mb-1 flex items-center ${
-            selectedChatId === match.id
-              ? "bg-blue-500/20 hover:bg-blue-500/30"
-              : "hover:bg-gray-700/50"
-          }`}
-          onClick={() => handleSelectChat(match.id)} // Use handler function
-        >
-          <Avatar className="h-8 w-8 mr-3 flex-shrink-0">
-            {/* Use fetched avatar_url for sidebar */}
-            <AvatarImage
-              src={
-                match.avatar_url ||
-                `https://api.dicebear.com/8.x/initials/svg?seed=${match.name}`
-              } // Fallback to DiceBear
-              alt={match.name}
-            />
-            <AvatarFallback>
-              {match.name?.substring(0, 2) || "??"}
-            </AvatarFallback>
-          </Avatar>
-          <span className="flex-grow truncate mr-2">
-            {match.name || "Unknown User"}
-          </span>
-        </Button>
-      );
-    });
+    conversationsContent = conversations.map(
+      ({ roomId, group, match, lastMessage, activityAt }) => {
+        const chatId = group ? group.roomId : match.id;
+        const name = group ? group.name : match.name || "Unknown User";
+        const matchPresence = match ? presence[match.id] : undefined;
+        // Without messages yet, show who's there instead
+        const subtitle = lastMessage
+          ? getPreviewText(roomId, lastMessage)
+          : group
+            ? `${group.members.length} members`
+            : formatPresence(matchPresence);
+        // Hide the badge for the open conversation, it's being read right now
+        const unreadCount =
+          selectedChatId !== chatId
+            ? (unreadCounts[roomId] ?? previews[roomId]?.unreadCount ?? 0)
+            : 0;
+        return (
+          <Button
+            key={roomId}
+            variant="ghost"
+            className={`w-full justify-start p-3 mb-1 flex items-center ${
+              selectedChatId === chatId
+                ? "bg-blue-500/20 hover:bg-blue-500/30"
+                : "hover:bg-gray-700/50"
+            }`}
+            onClick={() => handleSelectChat(chatId)} // Use handler function
+          >
+            {group ? (
+              <span className="mr-3 flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full bg-blue-500/30">
+                <Users className="h-4 w-4" />
+              </span>
+            ) : (
+              <div className="relative mr-3 flex-shrink-0">
+                <Avatar className="h-8 w-8">
+                  {/* Use fetched avatar_url for sidebar */}
+                  <AvatarImage
+                    src={
+                      match.avatar_url ||
+                      `https://api.dicebear.com/8.x/initials/svg?seed=${match.name}`
+                    } // Fallback to DiceBear
+                    alt={match.name}
+                  />
+                  <AvatarFallback>
+                    {match.name?.substring(0, 2) || "??"}
+                  </AvatarFallback>
+                </Avatar>
+                {/* Online indicator */}
+                {matchPresence?.online && (
+                  <span className="absolute bottom-0 right-0 h-2.5 w-2.5 rounded-full bg-green-500 ring-2 ring-gray-900" />
+                )}
+              </div>
+            )}
+            <div className="flex-grow min-w-0 mr-2 text-left">
+              <span className="flex items-baseline justify-between gap-x-2">
+                <span className="truncate">{name}</span>
+                {lastMessage && activityAt && (
+                  <span className="flex-shrink-0 text-xs font-normal text-gray-400">
+                    {formatActivityTime(activityAt)}
+                  </span>
+                )}
+              </span>
+              {subtitle && (
+                <span
+                  className={`block truncate text-xs ${
+                    unreadCount > 0 ? "text-gray-200" : "text-gray-400"
+                  } ${lastMessage?.deleted ? "italic" : ""}`}
+                >
+                  {subtitle}
+                </span>
+              )}
+            </div>
+            {unreadCount > 0 && (
+              <Badge className="flex-shrink-0 bg-blue-500 text-white hover:bg-blue-500">
+                {unreadCount > 99 ? "99+" : unreadCount}
+              </Badge>
+            )}
+          </Button>
+        );
+      }
+    );
   }
 
   // Initial loading state for user - MOVED TO TOP OF RETURN LOGIC
@@ -613,13 +1716,53 @@ export default function ChatPage() {
   // Main component return - NOW CORRECTLY PLACED
   return (
     <div className="h-screen flex bg-gray-900 text-white bg-transparent">
-      {/* Sidebar for Matches */}
+      {/* Sidebar for Groups and Matches */}
       <div className="w-1/4 border-r border-blue-500/20 flex flex-col min-w-[10rem]">
         <div className="p-4 border-b border-blue-500/20">
-          <h2 className="text-xl font-semibold">Matches</h2>
+          <div className="flex items-center justify-between gap-x-2">
+            <h2 className="text-xl font-semibold">Chats</h2>
+            {currentUserId && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-gray-300 hover:bg-gray-800 hover:text-white"
+                onClick={() => setGroupDialog("create")}
+                disabled={matches.length === 0}
+                aria-label="New group"
+                title="New group"
+              >
+                <UserPlus className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          {currentUserId && (
+            <div className="relative mt-3">
+              <Search className="pointer-events-none absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+              <Input
+                type="search"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyDown={(e) => e.key === "Escape" && setSearchQuery("")}
+                placeholder="Search messages"
+                aria-label="Search messages"
+                className="pl-8 bg-gray-800 border-blue-500/40 text-white placeholder-gray-400"
+              />
+            </div>
+          )}
         </div>
-        {/* Use matchesContent defined earlier */}
-        <ScrollArea className="flex-1 p-2">{matchesContent}</ScrollArea>
+        {/* Search results replace the chats while searching */}
+        <ScrollArea className="flex-1 p-2">
+          {currentUserId && searchQuery.trim() ? (
+            <ChatSearchResults
+              query={searchQuery}
+              currentUserId={currentUserId}
+              getConversationName={getConversationName}
+              onSelect={handleSelectSearchResult}
+            />
+          ) : (
+            conversationsContent
+          )}
+        </ScrollArea>
       </div>
 
       {/* Chat Area */}
@@ -634,157 +1777,222 @@ export default function ChatPage() {
         ) : selectedChatId ? (
           <>
             <div className="p-6 border-b border-blue-500/20">
-              <h1 className="text-2xl font-bold">
-                Chat with {selectedChatName}
-              </h1>
+              <div className="flex items-center gap-x-3">
+                <h1 className="text-2xl font-bold">
+                  {selectedGroup
+                    ? selectedChatName
+                    : `Chat with ${selectedChatName}`}
+                </h1>
+                {isReconnecting && (
+                  <span className="flex items-center gap-x-1 text-sm text-yellow-400">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Reconnecting…
+                  </span>
+                )}
+                {selectedGroup ? (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="ml-auto text-gray-300 hover:bg-gray-800 hover:text-white"
+                        aria-label="Group options"
+                      >
+                        <MoreVertical className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent
+                      align="end"
+                      className="border-blue-500/20 bg-gray-800 text-white"
+                    >
+                      <DropdownMenuItem
+                        onSelect={() => setGroupDialog("invite")}
+                      >
+                        <UserPlus className="mr-2 h-4 w-4" />
+                        Invite matches
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onSelect={() => setGroupDialog("rename")}
+                      >
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Rename group
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        className="text-red-400"
+                        onSelect={() => setIsLeaveGroupOpen(true)}
+                      >
+                        <LogOut className="mr-2 h-4 w-4" />
+                        Leave group
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      {exportMenu}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                ) : (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="ml-auto text-gray-300 hover:bg-gray-800 hover:text-white"
+                        aria-label="Chat options"
+                      >
+                        <MoreVertical className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent
+                      align="end"
+                      className="border-blue-500/20 bg-gray-800 text-white"
+                    >
+                      <DropdownMenuItem
+                        onSelect={() => setUserAction("unmatch")}
+                      >
+                        <UserX className="mr-2 h-4 w-4" />
+                        Unmatch
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onSelect={() =>
+                          setReportTarget({
+                            kind: "user",
+                            userId: selectedChatId,
+                            userName: selectedChatName,
+                          })
+                        }
+                      >
+                        <Flag className="mr-2 h-4 w-4" />
+                        Report
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        className="text-red-400"
+                        onSelect={() => setUserAction("block")}
+                      >
+                        <Ban className="mr-2 h-4 w-4" />
+                        Block
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      {exportMenu}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+              </div>
+              {selectedChatPresence && (
+                <p className="text-sm text-gray-400">{selectedChatPresence}</p>
+              )}
+              {typingNames.length > 0 && (
+                <p className="text-sm italic text-blue-300">
+                  {typingNames.join(", ")}{" "}
+                  {typingNames.length === 1 ? "is" : "are"} typing…
+                </p>
+              )}
+              {chatError && (
+                <p className="text-sm text-red-500 mt-1">{chatError}</p>
+              )}
+              {slowDownNotice && (
+                <p className="text-sm text-yellow-400 mt-1">{slowDownNotice}</p>
+              )}
             </div>
 
-            <ScrollArea
-              className="flex-1 p-6" /* Use ScrollArea for chat history */
-              // ref is no longer needed here for auto-scroll
+            <ChatPinnedBar
+              pins={currentPins}
+              open={isPinnedBarOpen}
+              onOpenChange={setIsPinnedBarOpen}
+              renderQuote={renderQuote}
+              onJump={jumpToMessage}
+              onUnpin={(messageId) =>
+                handleTogglePin(currentRoomId!, messageId, false)
+              }
+            />
+
+            <ChatMessageList
+              key={currentRoomId ?? "none"} // Fresh scroll state per conversation
+              className="flex-1"
+              messages={visibleMessages}
+              renderMessage={renderMessage}
+              isOwnMessage={(msg) => msg.sender === "me"}
+              hasOlder={hasOlderMessages}
+              isLoadingOlder={isLoadingOlder}
+              onLoadOlder={loadOlderMessages}
+              onVisibleRangeChange={handleVisibleRangeChange}
+              listRef={messageListRef}
+            />
+
+            <ChatComposer
+              roomId={selectedRoomId}
+              userId={currentUserId!}
+              editingMessage={editingMessage}
+              replyingTo={replyingTo}
+              renderQuote={renderQuote}
+              onSend={handleSend}
+              onSaveEdit={handleSaveEdit}
+              onCancelEditing={cancelEditing}
+              onCancelReply={() => setReplyingTo(null)}
+              onProposeSession={
+                currentRoomId
+                  ? () =>
+                      setSessionTarget({
+                        roomId: currentRoomId,
+                        replaces: null,
+                      })
+                  : undefined
+              }
+              onError={setChatError}
+            />
+
+            <AlertDialog
+              open={!!messageToDelete}
+              onOpenChange={(open) => !open && setMessageToDelete(null)}
             >
-              <div className="space-y-4">
-                {filteredChatHistory.map((msg, index) => {
-                  // Add index here
-                  // Determine sender information
-                  const isMe = msg.sender === "me";
-                  const senderId = msg.senderId;
-
-                  // Find the match details for the 'other' sender
-                  const otherMatch = matches.find((m) => m.id === senderId);
-
-                  // Determine name and avatar URL based on sender
-                  const senderName = isMe
-                    ? currentUser?.user_metadata?.name || "Me"
-                    : otherMatch?.name || "Unknown User";
-
-                  const avatarUrl = isMe
-                    ? currentUserProfile?.avatar_url // Use current user's profile avatar
-                    : otherMatch?.avatar_url; // Use matched user's avatar
-
-                  // Fallback avatar using DiceBear if URL is missing
-                  const fallbackAvatarUrl = `https://api.dicebear.com/8.x/initials/svg?seed=${senderName}`;
-
-                  // Determine message time (prefer DB timestamp)
-                  const messageTime = msg.created_at
-                    ? new Date(msg.created_at).getTime()
-                    : msg.timestamp;
-                  const isValidTime =
-                    typeof messageTime === "number" && !isNaN(messageTime);
-
-                  // Determine if the separator should be shown *at this specific index*
-                  const showSeparator = index === firstUnreadIndex; // Show only at the found index
-
-                  return (
-                    // Use a simple div wrapper for the key
-                    <div key={msg.id}>
-                      {/* Render separator if this is the first unread message */}
-                      {showSeparator && (
-                        <div className="relative my-4">
-                          <div className="absolute inset-0 flex items-center">
-                            <span className="w-full border-t border-red-500" />
-                          </div>
-                          <div className="relative flex justify-center">
-                            <span className="bg-gray-900 px-2 text-xs text-red-500">
-                              New Messages
-                            </span>
-                          </div>
-                        </div>
-                      )}
-                      {/* Original Message Div */}
-                      <div
-                        className={`flex gap-x-3 ${
-                          // Add gap for avatar
-                          isMe ? "justify-end" : "justify-start"
-                        }`}
-                      >
-                        {/* Avatar for 'other' sender (left side) */}
-                        {!isMe && (
-                          <Avatar className="h-8 w-8">
-                            <AvatarImage
-                              src={avatarUrl || fallbackAvatarUrl}
-                              alt={senderName}
-                            />
-                            <AvatarFallback>
-                              {senderName?.substring(0, 2) || "???"}
-                            </AvatarFallback>
-                          </Avatar>
-                        )}
-
-                        {/* Message Bubble and Timestamp */}
-                        <div
-                          className={`flex flex-col ${
-                            // Group bubble and time
-                            isMe ? "items-end" : "items-start"
-                          }`}
-                        >
-                          <div
-                            className={`${
-                              isMe ? "bg-blue-600" : "bg-gray-700"
-                            } text-white rounded-lg p-3 max-w-md break-words`}
-                          >
-                            <p>{msg.text}</p>
-                          </div>
-                          <span className="text-xs text-gray-400 mt-1 px-1">
-                            {new Date(msg.timestamp).toLocaleString([], {
-                              day: "2-digit",
-                              month: "2-digit",
-                              hour: "2-digit",
-                              minute: "2-digit",
-                            })}
-                          </span>
-                        </div>
-
-                        {/* Avatar for 'me' sender (right side) */}
-                        {isMe && (
-                          <Avatar className="h-8 w-8">
-                            <AvatarImage
-                              src={avatarUrl || fallbackAvatarUrl}
-                              alt={senderName}
-                            />
-                            <AvatarFallback>
-                              {senderName?.substring(0, 2) || "Me"}
-                            </AvatarFallback>
-                          </Avatar>
-                        )}
-                      </div>
-                    </div>
-                  );
-                })}
-                {/* Empty div at the end to scroll to */}
-                <div ref={messagesEndRef} />
-              </div>
-            </ScrollArea>
-
-            <div className="p-6 border-t border-blue-500/20">
-              <form onSubmit={handleSend} className="flex gap-x-4">
-                <Input
-                  value={message}
-                  onChange={(e) => setMessage(e.target.value)}
-                  // Update last viewed time on focus
-                  onFocus={() => {
-                    if (currentRoomId) {
-                      setLastViewedTimestamps((prev) => ({
-                        ...prev,
-                        [currentRoomId]: Date.now(),
-                      }));
+              <AlertDialogContent className="border-blue-500/20 bg-gray-900 text-white">
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete message?</AlertDialogTitle>
+                  <AlertDialogDescription className="text-gray-400">
+                    It will be replaced with &quot;Message deleted&quot; for
+                    both of you.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel className="bg-transparent text-white hover:bg-gray-800 hover:text-white">
+                    Cancel
+                  </AlertDialogCancel>
+                  <AlertDialogAction
+                    className="bg-red-600 hover:bg-red-700"
+                    onClick={() =>
+                      messageToDelete && handleDeleteMessage(messageToDelete)
                     }
-                  }}
-                  placeholder={
-                    isSocketConnected ? "Type your message..." : "Connecting..."
-                  }
-                  className="flex-1 bg-gray-800 border-blue-500/40 text-white placeholder-gray-400 disabled:opacity-50" // Added disabled style
-                  disabled={!isSocketConnected} // Disable input if not connected
-                />
-                <Button
-                  type="submit"
-                  className="bg-blue-500 hover:bg-blue-600 disabled:opacity-50" // Added disabled style
-                  disabled={!isSocketConnected || !message.trim()} // Also disable if message is empty
-                >
-                  <Send className="h-4 w-4" />
-                </Button>
-              </form>
-            </div>
+                  >
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+
+            <AlertDialog
+              open={isLeaveGroupOpen && !!selectedGroup}
+              onOpenChange={setIsLeaveGroupOpen}
+            >
+              <AlertDialogContent className="border-blue-500/20 bg-gray-900 text-white">
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Leave {selectedChatName}?</AlertDialogTitle>
+                  <AlertDialogDescription className="text-gray-400">
+                    You won&apos;t see its messages anymore unless a member
+                    invites you again.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel className="bg-transparent text-white hover:bg-gray-800 hover:text-white">
+                    Cancel
+                  </AlertDialogCancel>
+                  <AlertDialogAction
+                    className="bg-red-600 hover:bg-red-700"
+                    onClick={() =>
+                      selectedGroup && handleLeaveGroup(selectedGroup)
+                    }
+                  >
+                    Leave
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
           </>
         ) : (
           <div className="flex-1 flex items-center justify-center">
@@ -794,6 +2002,75 @@ export default function ChatPage() {
           </div>
         )}
       </div>
+
+      <ReportDialog
+        target={reportTarget}
+        onOpenChange={(open) => !open && setReportTarget(null)}
+      />
+      <StudySessionDialog
+        target={sessionTarget}
+        onOpenChange={(open) => !open && setSessionTarget(null)}
+        onProposed={(msg) =>
+          setChatHistory((prev) =>
+            mergeMessages(prev, [fromSocketMessage(msg, currentUserId)])
+          )
+        }
+      />
+      <UserActionDialog
+        action={selectedChatId && !selectedGroup ? userAction : null}
+        user={
+          selectedChatId && !selectedGroup
+            ? { id: selectedChatId, name: selectedChatName }
+            : null
+        }
+        onOpenChange={(open) => !open && setUserAction(null)}
+        onDone={handleUserActionDone}
+      />
+      {groupDialog === "create" && (
+        <ChatGroupDialog
+          open
+          onOpenChange={(open) => !open && setGroupDialog(null)}
+          title="New group"
+          description="Start a study chat with some of your matches."
+          submitLabel="Create group"
+          showName
+          candidates={matches}
+          onSubmit={({ name, memberIds }) =>
+            sendGroupChange("group:create", { name, memberIds })
+          }
+        />
+      )}
+      {groupDialog === "invite" && selectedGroup && (
+        <ChatGroupDialog
+          open
+          onOpenChange={(open) => !open && setGroupDialog(null)}
+          title={`Invite to ${selectedGroup.name}`}
+          submitLabel="Invite"
+          candidates={matches.filter(
+            (m) =>
+              !selectedGroup.members.some((member) => member.userId === m.id)
+          )}
+          onSubmit={({ memberIds }) =>
+            sendGroupChange("group:invite", {
+              groupId: selectedGroup.id,
+              memberIds,
+            })
+          }
+        />
+      )}
+      {groupDialog === "rename" && selectedGroup && (
+        <ChatGroupDialog
+          open
+          onOpenChange={(open) => !open && setGroupDialog(null)}
+          title="Rename group"
+          submitLabel="Save"
+          showName
+          initialName={selectedGroup.name}
+          onSubmit={({ name }) =>
+            sendGroupChange("group:rename", { groupId: selectedGroup.id, name })
+          }
+        />
+      )}
     </div>
   );
 }
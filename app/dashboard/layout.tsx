@@ -1,28 +1,91 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation"; // Import useRouter
-import { MessageSquare, User, Users, LogOut, Menu, X } from "lucide-react"; // Import Menu and X icons
+import {
+  CalendarDays,
+  MessageSquare,
+  User,
+  Users,
+  LogOut,
+  Menu,
+  X,
+  ShieldAlert,
+  ShieldCheck,
+} from "lucide-react"; // Import Menu and X icons
 import { cn } from "@/lib/utils";
-import { useSupabaseClient } from "@supabase/auth-helpers-react"; // Import Supabase client hook
+import { useSupabaseClient, useUser } from "@supabase/auth-helpers-react"; // Import Supabase client hook
 import { Button } from "@/components/ui/button"; // Import Button component
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  ChatSocketProvider,
+  useChatSocket,
+} from "@/components/chat-socket-provider";
 
 export default function DashboardLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
+  // One shared chat connection for every dashboard page
+  return (
+    <ChatSocketProvider>
+      <DashboardShell>{children}</DashboardShell>
+    </ChatSocketProvider>
+  );
+}
+
+function DashboardShell({ children }: { children: React.ReactNode }) {
   const pathname = usePathname();
   const router = useRouter(); // Get router instance
   const supabase = useSupabaseClient(); // Get Supabase client
   const [isSidebarOpen, setIsSidebarOpen] = useState(false); // Default to closed on small screens
+  const { unreadCounts, isSuspended, warnings, acknowledgeWarning } =
+    useChatSocket();
+  const userId = useUser()?.id;
+  const [isModerator, setIsModerator] = useState(false);
+  const totalUnread = Object.values(unreadCounts).reduce(
+    (sum, n) => sum + n,
+    0
+  ); // Shown on the Chat item
 
   const navigation = [
     { name: "Match", href: "/dashboard/match", icon: Users },
-    { name: "Chat", href: "/dashboard/chat", icon: MessageSquare },
+    {
+      name: "Chat",
+      href: "/dashboard/chat",
+      icon: MessageSquare,
+      badge: totalUnread,
+    },
+    { name: "Sessions", href: "/dashboard/sessions", icon: CalendarDays },
     { name: "Profile", href: "/dashboard/profile", icon: User },
   ];
+  if (isModerator) {
+    navigation.push({
+      name: "Moderation",
+      href: "/dashboard/moderation",
+      icon: ShieldCheck,
+    });
+  }
+
+  // Moderators get a link to the report queue (RLS only shows our own row)
+  useEffect(() => {
+    if (!userId) {
+      setIsModerator(false);
+      return;
+    }
+    supabase
+      .from("moderators")
+      .select("user_id")
+      .eq("user_id", userId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error("Error checking moderator role:", error);
+        setIsModerator(!!data);
+      });
+  }, [supabase, userId]);
 
   const handleSignOut = async () => {
     const { error } = await supabase.auth.signOut();
@@ -84,6 +147,11 @@ export default function DashboardLayout({
                 >
                   <item.icon className="h-5 w-5" />
                   {item.name}
+                  {!!item.badge && (
+                    <Badge className="ml-auto bg-blue-500 text-white hover:bg-blue-500">
+                      {item.badge > 99 ? "99+" : item.badge}
+                    </Badge>
+                  )}
                 </Link>
               );
             })}
@@ -110,7 +178,45 @@ export default function DashboardLayout({
         )}
 
         {/* Main content */}
-        <main className="flex-1 overflow-y-auto">{children}</main>
+        <main className="flex-1 overflow-y-auto">
+          {isSuspended && (
+            <Alert
+              variant="destructive"
+              className="rounded-none border-x-0 border-t-0 bg-red-950/60 text-red-200"
+            >
+              <ShieldAlert className="h-4 w-4" />
+              <AlertTitle>Your account has been suspended</AlertTitle>
+              <AlertDescription>
+                A moderator suspended your account after a report, so you
+                can&apos;t chat, like, match or edit your profile anymore.
+              </AlertDescription>
+            </Alert>
+          )}
+          {warnings.map((warning) => (
+            <Alert
+              key={warning.id}
+              className="rounded-none border-x-0 border-t-0 border-yellow-500/40 bg-yellow-950/60 text-yellow-100"
+            >
+              <ShieldAlert className="h-4 w-4 !text-yellow-300" />
+              <AlertTitle>Warning from a moderator</AlertTitle>
+              <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+                <span>
+                  {warning.note ||
+                    "Someone reported your behaviour and a moderator agreed. Please follow the community guidelines."}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="border-yellow-500/40 bg-transparent text-yellow-100 hover:bg-yellow-500/10 hover:text-yellow-50"
+                  onClick={() => acknowledgeWarning(warning.id)}
+                >
+                  Got it
+                </Button>
+              </AlertDescription>
+            </Alert>
+          ))}
+          {children}
+        </main>
       </div>
     </div>
   );
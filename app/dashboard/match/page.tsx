@@ -3,10 +3,12 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"; // Import Avatar components
-import { X, Heart, User } from "lucide-react"; // Import User icon
+import { X, Heart, User, Ban, Flag } from "lucide-react"; // Import User icon
 import { useEffect, useState } from "react";
 import { useSupabaseClient } from "@supabase/auth-helpers-react";
 import { calculateCompatibility, StudentProfile } from "@/lib/compatibility"; // Import the function and interface
+import { UserActionDialog } from "@/components/user-action-dialog";
+import { ReportDialog, type ReportTarget } from "@/components/report-dialog";
 
 // Extend Student interface to include compatibility score
 interface PotentialMatch extends StudentProfile {
@@ -22,6 +24,8 @@ export default function MatchPage() {
     useState<StudentProfile | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true); // Loading state
+  const [userToBlock, setUserToBlock] = useState<PotentialMatch | null>(null); // Block confirmation
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null); // Profile being reported
 
   useEffect(() => {
     const fetchCurrentUserAndMatches = async () => {
@@ -92,6 +96,11 @@ export default function MatchPage() {
             .eq("liker_user_id", userUuid);
         if (existingLikesError) throw existingLikesError;
 
+        // Users on either side of a block never see each other
+        const { data: blockedUsersData, error: blockedUsersError } =
+          await supabase.rpc("get_block_excluded_user_ids");
+        if (blockedUsersError) throw blockedUsersError;
+
         // Create a set of user IDs the current user has already matched with or liked
         const excludedUserIds = new Set<string>();
         (existingMatchesData || []).forEach((match) => {
@@ -105,6 +114,11 @@ export default function MatchPage() {
         (existingLikesData || []).forEach((like) => {
           excludedUserIds.add(like.liked_user_id);
         });
+        ((blockedUsersData as { user_id: string }[] | null) || []).forEach(
+          (blocked) => {
+            excludedUserIds.add(blocked.user_id);
+          }
+        );
 
         // 4. Fetch potential matches including avatar_url
         let query = supabase
@@ -112,7 +126,7 @@ export default function MatchPage() {
           .select("user_id, name, field_of_study, year_of_study, avatar_url") // Add avatar_url
           .neq("user_id", userUuid); // Exclude self
 
-        // Add exclusion for already matched or liked users if any exist
+        // Add exclusion for already matched, liked or blocked users if any exist
         if (excludedUserIds.size > 0) {
           query = query.not(
             "user_id",
@@ -314,6 +328,32 @@ export default function MatchPage() {
                         <Heart className="h-6 w-6" />
                       </Button>
                     </div>
+                    <div className="mt-4 flex justify-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-gray-400 hover:bg-red-500/10 hover:text-red-400"
+                        onClick={() =>
+                          setReportTarget({
+                            kind: "user",
+                            userId: match.user_id,
+                            userName: match.name || "this user",
+                          })
+                        }
+                      >
+                        <Flag className="mr-2 h-4 w-4" />
+                        Report
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-gray-400 hover:bg-red-500/10 hover:text-red-400"
+                        onClick={() => setUserToBlock(match)}
+                      >
+                        <Ban className="mr-2 h-4 w-4" />
+                        Block
+                      </Button>
+                    </div>
                   </CardContent>
                 </Card>
               </div>
@@ -322,6 +362,25 @@ export default function MatchPage() {
         : !isLoading && (
             <p className="text-gray-400">No potential matches found.</p>
           )}
+
+      <ReportDialog
+        target={reportTarget}
+        onOpenChange={(open) => !open && setReportTarget(null)}
+      />
+      <UserActionDialog
+        action={userToBlock ? "block" : null}
+        user={
+          userToBlock
+            ? { id: userToBlock.user_id, name: userToBlock.name || "this user" }
+            : null
+        }
+        onOpenChange={(open) => !open && setUserToBlock(null)}
+        onDone={(_action, blockedUserId) =>
+          setPotentialMatches((prev) =>
+            prev.filter((match) => match.user_id !== blockedUserId)
+          )
+        }
+      />
     </div>
   );
 }
@@ -0,0 +1,355 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  Ban,
+  Check,
+  Loader2,
+  Paperclip,
+  RefreshCw,
+  ShieldAlert,
+  Trash2,
+} from "lucide-react";
+import { useChatSocket } from "@/components/chat-socket-provider";
+import { REPORT_REASONS } from "@/components/report-dialog";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type {
+  ModerationAction,
+  ModerationListAck,
+  ModerationReport,
+  ResolveReportAck,
+} from "@/types/socket";
+
+const MODERATION_ACK_TIMEOUT_MS = 10000;
+
+const reasonLabel = (reason: string) =>
+  REPORT_REASONS.find((r) => r.value === reason)?.label ?? reason;
+
+const formatTime = (iso: string) => format(new Date(iso), "d MMM yyyy, HH:mm");
+
+// The reported content as it was when reported, with the messages before it
+function ReportedContent({ report }: { report: ModerationReport }) {
+  const { message, context, profile } = report.snapshot;
+  if (profile) {
+    return (
+      <div className="flex items-center gap-x-3 rounded-md bg-gray-800/60 p-3">
+        <Avatar className="h-12 w-12">
+          <AvatarImage
+            src={
+              profile.avatarUrl ||
+              `https://api.dicebear.com/8.x/initials/svg?seed=${profile.name}`
+            }
+            alt={profile.name}
+          />
+          <AvatarFallback>{profile.name.substring(0, 2)}</AvatarFallback>
+        </Avatar>
+        <div className="text-sm">
+          <p className="font-semibold text-white">{profile.name}</p>
+          <p className="text-gray-400">
+            {`${profile.fieldOfStudy || "N/A"} • Year ${
+              profile.yearOfStudy || "N/A"
+            }`}
+          </p>
+        </div>
+      </div>
+    );
+  }
+  if (!message) return null;
+  return (
+    <div className="space-y-1 rounded-md bg-gray-800/60 p-3 text-sm">
+      {context?.map((m, i) => (
+        <p key={i} className="text-gray-400">
+          <span className="font-semibold">{m.senderName}:</span> {m.text}
+        </p>
+      ))}
+      <p className="rounded bg-red-500/10 p-1 text-white">
+        <span className="font-semibold">{report.reportedUser.name}:</span>{" "}
+        <span className="whitespace-pre-wrap">{message.text}</span>
+        {message.attachment && (
+          <span className="ml-1 inline-flex items-center gap-x-1 text-gray-300">
+            <Paperclip className="h-3 w-3" />
+            {message.attachment.name}
+          </span>
+        )}
+      </p>
+      <p className="text-xs text-gray-500">
+        Sent {formatTime(message.createdAt)}
+      </p>
+    </div>
+  );
+}
+
+// Moderators only: open reports, oldest first, and what to do about them.
+// The server checks the moderator role on every request.
+export default function ModerationPage() {
+  const { socket, isConnected } = useChatSocket();
+  const [reports, setReports] = useState<ModerationReport[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({}); // Per report ID
+  const [busyReportId, setBusyReportId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<{
+    reportId: string;
+    message: string;
+  } | null>(null);
+  const [reportToSuspend, setReportToSuspend] =
+    useState<ModerationReport | null>(null); // Suspension confirmation
+
+  const loadReports = useCallback(async () => {
+    if (!socket || !isConnected) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const ack: ModerationListAck = await socket
+        .timeout(MODERATION_ACK_TIMEOUT_MS)
+        .emitWithAck("moderation:list");
+      if (ack.ok) {
+        setReports(ack.reports);
+      } else {
+        console.error(`Loading reports failed (${ack.code}):`, ack.message);
+        setError(ack.message);
+      }
+    } catch (err) {
+      console.warn("No acknowledgement for moderation:list:", err);
+      setError("Could not load reports. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [socket, isConnected]);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  const handleResolve = async (
+    report: ModerationReport,
+    action: ModerationAction
+  ) => {
+    if (!socket || !isConnected) {
+      setActionError({
+        reportId: report.id,
+        message: "You're offline - reconnect and try again.",
+      });
+      return;
+    }
+    setBusyReportId(report.id);
+    setActionError(null);
+    try {
+      const ack: ResolveReportAck = await socket
+        .timeout(MODERATION_ACK_TIMEOUT_MS)
+        .emitWithAck("moderation:resolve", {
+          reportId: report.id,
+          action,
+          note: notes[report.id]?.trim() ?? "",
+        });
+      // Handled now, or already by someone else: either way it's done
+      if (ack.ok || ack.code === "REPORT_CLOSED") {
+        setReports((prev) => prev.filter((r) => r.id !== report.id));
+      } else {
+        console.error(`Resolving report failed (${ack.code}):`, ack.message);
+        setActionError({ reportId: report.id, message: ack.message });
+      }
+    } catch (err) {
+      console.warn("No acknowledgement for moderation:resolve:", err);
+      setActionError({
+        reportId: report.id,
+        message: "The action could not be saved. Please try again.",
+      });
+    } finally {
+      setBusyReportId(null);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex items-center justify-between gap-x-4">
+        <h1 className="text-2xl font-bold text-white">Moderation</h1>
+        <Button
+          variant="ghost"
+          className="text-gray-300 hover:bg-gray-800 hover:text-white"
+          onClick={loadReports}
+          disabled={isLoading || !isConnected}
+        >
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      {isLoading && <p className="text-gray-400">Loading reports...</p>}
+      {!isLoading && error && <p className="text-red-500">{error}</p>}
+      {!isLoading && !error && reports.length === 0 && (
+        <p className="text-gray-400">No open reports.</p>
+      )}
+
+      <div className="mx-auto max-w-3xl space-y-4">
+        {!isLoading &&
+          !error &&
+          reports.map((report) => {
+            const isBusy = busyReportId === report.id;
+            return (
+              <Card
+                key={report.id}
+                className="border-blue-500/20 bg-blue-950/20 text-white"
+              >
+                <CardHeader className="pb-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge className="bg-red-600 hover:bg-red-600">
+                      {reasonLabel(report.reason)}
+                    </Badge>
+                    <Badge
+                      variant="outline"
+                      className="border-blue-500/40 text-gray-300"
+                    >
+                      {report.messageId ? "Message" : "Profile"}
+                    </Badge>
+                    {report.reportedUser.suspended && (
+                      <Badge variant="outline" className="border-red-500/60">
+                        Suspended
+                      </Badge>
+                    )}
+                    <span className="ml-auto text-xs text-gray-400">
+                      {formatTime(report.createdAt)}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-300">
+                    <span className="font-semibold">
+                      {report.reporter.name}
+                    </span>{" "}
+                    reported{" "}
+                    <span className="font-semibold">
+                      {report.reportedUser.name}
+                    </span>
+                    {report.reportedUser.priorActions > 0 && (
+                      <span className="text-yellow-400">
+                        {" "}
+                        ({report.reportedUser.priorActions} earlier{" "}
+                        {report.reportedUser.priorActions === 1
+                          ? "action"
+                          : "actions"}
+                        )
+                      </span>
+                    )}
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {report.details && (
+                    <p className="whitespace-pre-wrap text-sm text-gray-300">
+                      &ldquo;{report.details}&rdquo;
+                    </p>
+                  )}
+                  <ReportedContent report={report} />
+                  <Textarea
+                    value={notes[report.id] ?? ""}
+                    onChange={(e) =>
+                      setNotes((prev) => ({
+                        ...prev,
+                        [report.id]: e.target.value,
+                      }))
+                    }
+                    maxLength={1000}
+                    rows={2}
+                    placeholder="Note (shown to the user with a warning, kept in the log otherwise)"
+                    className="bg-gray-800 border-blue-500/40 text-white placeholder-gray-400"
+                  />
+                  {actionError?.reportId === report.id && (
+                    <p className="text-sm text-red-500">
+                      {actionError.message}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="border-gray-500/40 bg-transparent hover:bg-gray-800 hover:text-white"
+                      onClick={() => handleResolve(report, "dismiss")}
+                      disabled={isBusy}
+                    >
+                      <Check className="mr-2 h-4 w-4" />
+                      Dismiss
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="border-yellow-500/40 bg-transparent text-yellow-300 hover:bg-yellow-500/10 hover:text-yellow-200"
+                      onClick={() => handleResolve(report, "warn")}
+                      disabled={isBusy}
+                    >
+                      <ShieldAlert className="mr-2 h-4 w-4" />
+                      Warn user
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="border-red-500/40 bg-transparent text-red-300 hover:bg-red-500/10 hover:text-red-200"
+                      onClick={() => handleResolve(report, "remove_content")}
+                      disabled={isBusy}
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      {report.messageId ? "Remove message" : "Remove photo"}
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="bg-red-600 hover:bg-red-700"
+                      onClick={() => setReportToSuspend(report)}
+                      disabled={isBusy || report.reportedUser.suspended}
+                    >
+                      <Ban className="mr-2 h-4 w-4" />
+                      Suspend account
+                    </Button>
+                    {isBusy && (
+                      <Loader2 className="h-4 w-4 animate-spin self-center text-gray-400" />
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+      </div>
+
+      <AlertDialog
+        open={!!reportToSuspend}
+        onOpenChange={(open) => !open && setReportToSuspend(null)}
+      >
+        <AlertDialogContent className="border-blue-500/20 bg-gray-900 text-white">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Suspend {reportToSuspend?.reportedUser.name}?
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-gray-400">
+              They&apos;ll be disconnected right away and won&apos;t be able to
+              use chat anymore.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="bg-transparent text-white hover:bg-gray-800 hover:text-white">
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() =>
+                reportToSuspend && handleResolve(reportToSuspend, "suspend")
+              }
+            >
+              Suspend
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
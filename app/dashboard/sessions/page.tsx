@@ -0,0 +1,255 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format, isSameDay } from "date-fns";
+import {
+  CalendarDays,
+  Clock,
+  Download,
+  MapPin,
+  MessageSquare,
+  RefreshCw,
+  Users,
+} from "lucide-react";
+import { useSupabaseClient, useUser } from "@supabase/auth-helpers-react";
+import { useChatSocket } from "@/components/chat-socket-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import {
+  SESSION_COLUMNS,
+  formatDuration,
+  fromSessionRow,
+  isMeetingLink,
+  sessionEndsAt,
+  type StudySessionRow,
+} from "@/lib/study-sessions";
+import type { StudySession } from "@/types/socket";
+
+// Longest a session can last, so sessions still going on are loaded too
+// (server/sessions.js allows up to 8 hours)
+const MAX_SESSION_MS = 8 * 60 * 60 * 1000;
+
+// An accepted session and who it's with
+interface UpcomingSession {
+  session: StudySession;
+  withName: string;
+  isGroup: boolean;
+}
+
+// Accepted study sessions that haven't ended yet, soonest first, from all of
+// the user's conversations
+export default function SessionsPage() {
+  const supabase = useSupabaseClient();
+  const userId = useUser()?.id;
+  const { socket } = useChatSocket();
+  const [sessions, setSessions] = useState<UpcomingSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    if (!userId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      // RLS only returns sessions of the user's own conversations
+      const { data, error: sessionsError } = await supabase
+        .from("study_sessions")
+        .select(SESSION_COLUMNS)
+        .eq("status", "accepted")
+        .gt("starts_at", new Date(Date.now() - MAX_SESSION_MS).toISOString())
+        .order("starts_at", { ascending: true })
+        .overrideTypes<StudySessionRow[], { merge: false }>();
+      if (sessionsError) throw sessionsError;
+      const upcoming = (data || [])
+        .map(fromSessionRow)
+        .filter((s) => sessionEndsAt(s).getTime() > Date.now());
+
+      // Names of the groups and of the other person in 1:1 chats
+      const groupIds = [
+        ...new Set(
+          upcoming
+            .filter((s) => s.roomId.startsWith("group:"))
+            .map((s) => s.roomId.slice(6))
+        ),
+      ];
+      const partnerIds = [
+        ...new Set(
+          upcoming
+            .filter((s) => !s.roomId.startsWith("group:"))
+            .map((s) => s.roomId.split("--").find((id) => id !== userId)!)
+        ),
+      ];
+      const [groupsResult, studentsResult] = await Promise.all([
+        groupIds.length
+          ? supabase.from("chat_groups").select("id, name").in("id", groupIds)
+          : Promise.resolve({ data: [], error: null }),
+        partnerIds.length
+          ? supabase
+              .from("students")
+              .select("user_id, name")
+              .in("user_id", partnerIds)
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+      if (groupsResult.error) throw groupsResult.error;
+      if (studentsResult.error) throw studentsResult.error;
+      const groupNames = new Map(
+        (groupsResult.data || []).map((g) => [g.id as string, g.name as string])
+      );
+      const studentNames = new Map(
+        (studentsResult.data || []).map((s) => [
+          s.user_id as string,
+          s.name as string,
+        ])
+      );
+
+      setSessions(
+        upcoming.map((session) => {
+          if (session.roomId.startsWith("group:")) {
+            return {
+              session,
+              withName: groupNames.get(session.roomId.slice(6)) || "A group",
+              isGroup: true,
+            };
+          }
+          const partnerId = session.roomId
+            .split("--")
+            .find((id) => id !== userId)!;
+          return {
+            session,
+            withName: studentNames.get(partnerId) || "Unknown user",
+            isGroup: false,
+          };
+        })
+      );
+    } catch (err: any) {
+      console.error("Failed to load sessions:", err.message || err);
+      setError("Could not load your sessions. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [supabase, userId]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  // Sessions accepted (or otherwise answered) while the page is open
+  useEffect(() => {
+    if (!socket) return;
+    const sessionUpdateHandler = () => loadSessions();
+    socket.on("session:update", sessionUpdateHandler);
+    return () => {
+      socket.off("session:update", sessionUpdateHandler);
+    };
+  }, [socket, loadSessions]);
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex items-center justify-between gap-x-4">
+        <h1 className="text-2xl font-bold text-white">Upcoming sessions</h1>
+        <Button
+          variant="ghost"
+          className="text-gray-300 hover:bg-gray-800 hover:text-white"
+          onClick={loadSessions}
+          disabled={isLoading}
+        >
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      {isLoading && <p className="text-gray-400">Loading sessions...</p>}
+      {!isLoading && error && <p className="text-red-500">{error}</p>}
+      {!isLoading && !error && sessions.length === 0 && (
+        <p className="text-gray-400">
+          No upcoming sessions. Propose one from a chat with the calendar button
+          next to the message box.
+        </p>
+      )}
+
+      <div className="mx-auto max-w-3xl space-y-4">
+        {!isLoading &&
+          !error &&
+          sessions.map(({ session, withName, isGroup }) => {
+            const start = new Date(session.startsAt);
+            const location = session.location.trim();
+            const isNow = start.getTime() <= Date.now();
+            return (
+              <Card
+                key={session.id}
+                className="border-blue-500/20 bg-blue-950/20 text-white"
+              >
+                <CardHeader className="pb-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <p className="text-lg font-semibold">{session.topic}</p>
+                    {isNow ? (
+                      <Badge className="bg-green-600 hover:bg-green-600">
+                        Happening now
+                      </Badge>
+                    ) : (
+                      isSameDay(start, new Date()) && (
+                        <Badge className="bg-blue-500 hover:bg-blue-500">
+                          Today
+                        </Badge>
+                      )
+                    )}
+                  </div>
+                  <p className="flex items-center gap-x-2 text-sm text-gray-300">
+                    {isGroup ? (
+                      <Users className="h-4 w-4" />
+                    ) : (
+                      <MessageSquare className="h-4 w-4" />
+                    )}
+                    With {withName}
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="grid gap-1 text-sm text-gray-200">
+                    <span className="flex items-center gap-x-2">
+                      <CalendarDays className="h-4 w-4" />
+                      {format(start, "EEEE d MMMM yyyy, HH:mm")}
+                    </span>
+                    <span className="flex items-center gap-x-2">
+                      <Clock className="h-4 w-4" />
+                      {formatDuration(session.durationMinutes)}
+                    </span>
+                    {location && (
+                      <span className="flex items-center gap-x-2">
+                        <MapPin className="h-4 w-4 flex-shrink-0" />
+                        {isMeetingLink(location) ? (
+                          <a
+                            href={location}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="truncate underline hover:text-white"
+                          >
+                            {location}
+                          </a>
+                        ) : (
+                          <span className="break-words">{location}</span>
+                        )}
+                      </span>
+                    )}
+                  </div>
+                  <Button
+                    asChild
+                    variant="outline"
+                    size="sm"
+                    className="border-blue-500/40 bg-transparent hover:bg-gray-800 hover:text-white"
+                  >
+                    <a
+                      href={`/api/sessions/ics?sessionId=${encodeURIComponent(session.id)}`}
+                    >
+                      <Download className="mr-2 h-4 w-4" />
+                      Add to calendar (.ics)
+                    </a>
+                  </Button>
+                </CardContent>
+              </Card>
+            );
+          })}
+      </div>
+    </div>
+  );
+}
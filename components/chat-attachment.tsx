@@ -0,0 +1,92 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { useSupabaseClient } from "@supabase/auth-helpers-react";
+import { Download, FileText, ImageOff } from "lucide-react";
+import {
+  formatFileSize,
+  getAttachmentUrl,
+  isImageAttachment,
+} from "@/lib/attachments";
+import type { ChatAttachment } from "@/types/socket";
+
+// Size used for images sent without dimensions
+const DEFAULT_IMAGE_WIDTH = 320;
+const DEFAULT_IMAGE_HEIGHT = 240;
+
+// Shows a chat attachment through a signed URL: images as an inline
+// preview (opening the full file), other files as a download card.
+export function ChatAttachmentView({
+  attachment,
+}: {
+  attachment: ChatAttachment;
+}) {
+  const supabase = useSupabaseClient();
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFailed(false);
+    getAttachmentUrl(supabase, attachment)
+      .then((signedUrl) => !cancelled && setUrl(signedUrl))
+      .catch((err) => {
+        console.error("Failed to load attachment:", err);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase, attachment]);
+
+  if (isImageAttachment(attachment)) {
+    const width = attachment.width || DEFAULT_IMAGE_WIDTH;
+    const height = attachment.height || DEFAULT_IMAGE_HEIGHT;
+    // The box keeps the image's aspect ratio while the URL loads
+    return (
+      <div
+        className="mb-2 max-h-64 max-w-full overflow-hidden rounded bg-black/20"
+        style={{ aspectRatio: `${width} / ${height}`, width: 256 }}
+      >
+        {failed ? (
+          <div className="flex h-full items-center justify-center text-gray-400">
+            <ImageOff className="h-6 w-6" aria-label="Image unavailable" />
+          </div>
+        ) : (
+          url && (
+            <a href={url} target="_blank" rel="noopener noreferrer">
+              <Image
+                src={url}
+                alt={attachment.name}
+                width={width}
+                height={height}
+                unoptimized // Signed URLs expire, nothing to cache
+                className="h-full w-full object-cover"
+              />
+            </a>
+          )
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <a
+      href={url ?? undefined}
+      aria-disabled={!url}
+      className={`mb-2 flex items-center gap-x-3 rounded bg-black/20 p-2 ${
+        url ? "hover:bg-black/30" : "pointer-events-none opacity-70"
+      }`}
+    >
+      <FileText className="h-8 w-8 flex-shrink-0" />
+      <span className="min-w-0 flex-1">
+        <span className="block truncate text-sm">{attachment.name}</span>
+        <span className="block text-xs text-gray-300">
+          {failed ? "Unavailable" : formatFileSize(attachment.size)}
+        </span>
+      </span>
+      <Download className="h-4 w-4 flex-shrink-0" />
+    </a>
+  );
+}
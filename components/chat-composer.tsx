@@ -0,0 +1,334 @@
+"use client";
+
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+import { useSupabaseClient } from "@supabase/auth-helpers-react";
+import {
+  CalendarPlus,
+  Eye,
+  EyeOff,
+  Loader2,
+  Paperclip,
+  Pencil,
+  Reply,
+  Send,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ChatMarkdown } from "@/components/chat-markdown";
+import { useChatSocket } from "@/components/chat-socket-provider";
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  checkAttachmentFile,
+  uploadAttachment,
+} from "@/lib/attachments";
+import type { ChatMessage } from "@/lib/chat-state";
+import type { ChatAttachment, MessageQuote } from "@/types/socket";
+
+// Longest message the server accepts (it reads the same variable)
+const MAX_MESSAGE_LENGTH =
+  Number(process.env.NEXT_PUBLIC_CHAT_MAX_MESSAGE_LENGTH) || 4000;
+
+// Send typing:start at most this often while the user keeps typing
+// (the server expires the indicator after 5s without a refresh)
+const TYPING_THROTTLE_MS = 2000;
+// Send typing:stop after this long without a keystroke
+const TYPING_IDLE_MS = 3000;
+
+interface ChatComposerProps {
+  roomId: string | null; // Room of the selected conversation (set while offline too)
+  userId: string;
+  editingMessage: ChatMessage | null; // Our message being edited; its text fills the input
+  replyingTo: ChatMessage | null; // Quoted by the next message
+  renderQuote: (quote: MessageQuote) => ReactNode;
+  onSend: (text: string, attachment?: ChatAttachment) => void; // Queue a new message
+  onSaveEdit: (target: ChatMessage, text: string) => Promise<void>;
+  onCancelEditing: () => void;
+  onCancelReply: () => void;
+  onProposeSession?: () => void; // Unset until the room is joined
+  onError: (message: string | null) => void;
+}
+
+// Message input for the open conversation: the text (with a Markdown
+// preview), a file to attach, the reply or edit banner, and the typing
+// notifications for the other members
+export function ChatComposer({
+  roomId,
+  userId,
+  editingMessage,
+  replyingTo,
+  renderQuote,
+  onSend,
+  onSaveEdit,
+  onCancelEditing,
+  onCancelReply,
+  onProposeSession,
+  onError,
+}: ChatComposerProps) {
+  const supabase = useSupabaseClient();
+  const { socket, isConnected } = useChatSocket();
+  const [message, setMessage] = useState("");
+  const [pendingFile, setPendingFile] = useState<File | null>(null); // Picked, sent with the next message
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [showPreview, setShowPreview] = useState(false); // Render the text as it will be sent
+  const lastTypingEmitRef = useRef(0); // When we last sent typing:start (0 = not typing)
+  const typingIdleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const roomIdRef = useRef(roomId); // Read by the idle timer
+  useEffect(() => {
+    roomIdRef.current = roomId;
+  }, [roomId]);
+
+  // Tell the room we stopped typing (idle, sent, or cleared the input)
+  const stopTypingNotice = useCallback(() => {
+    if (typingIdleTimerRef.current) {
+      clearTimeout(typingIdleTimerRef.current);
+      typingIdleTimerRef.current = null;
+    }
+    const currentRoomId = roomIdRef.current;
+    if (lastTypingEmitRef.current && socket && currentRoomId) {
+      socket.emit("typing:stop", currentRoomId);
+    }
+    lastTypingEmitRef.current = 0;
+  }, [socket]);
+
+  // Starting an edit loads the message's text; finishing or cancelling it
+  // clears the input again
+  useEffect(() => {
+    if (editingMessage) stopTypingNotice();
+    setMessage(editingMessage?.text ?? "");
+  }, [editingMessage, stopTypingNotice]);
+
+  // Update the input and send throttled typing notifications
+  const handleMessageChange = (value: string) => {
+    setMessage(value);
+    if (!socket || !isConnected || !roomId || editingMessage) return;
+    if (!value.trim()) {
+      stopTypingNotice();
+      return;
+    }
+
+    const now = Date.now();
+    if (now - lastTypingEmitRef.current > TYPING_THROTTLE_MS) {
+      socket.emit("typing:start", roomId);
+      lastTypingEmitRef.current = now;
+    }
+    if (typingIdleTimerRef.current) clearTimeout(typingIdleTimerRef.current);
+    typingIdleTimerRef.current = setTimeout(stopTypingNotice, TYPING_IDLE_MS);
+  };
+
+  // handleSubmit function: Save the edit, or upload the picked file and
+  // hand the new message to the page to queue
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingMessage) {
+      await onSaveEdit(editingMessage, message);
+      return;
+    }
+    if ((!message.trim() && !pendingFile) || !roomId) {
+      console.warn("Cannot send message:", {
+        hasMessage: !!message.trim(),
+        hasRoom: !!roomId,
+      });
+      return;
+    }
+
+    // Files are uploaded first (this needs a connection to storage); the
+    // queued message only carries the reference
+    let attachment: ChatAttachment | undefined;
+    if (pendingFile) {
+      setIsUploading(true);
+      try {
+        attachment = await uploadAttachment(
+          supabase,
+          roomId,
+          userId,
+          pendingFile
+        );
+      } catch (err: any) {
+        console.error("Attachment upload failed:", err);
+        onError(err.message || "The file could not be uploaded.");
+        return;
+      } finally {
+        setIsUploading(false);
+      }
+      setPendingFile(null);
+    }
+
+    onSend(message, attachment);
+    setMessage(""); // Clear input immediately for better UX
+    stopTypingNotice();
+  };
+
+  // Check a picked file and hold it for the next message
+  const handleFilePicked = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow picking the same file again
+    if (!file) return;
+    const problem = checkAttachmentFile(file);
+    if (problem) {
+      onError(problem);
+      return;
+    }
+    onError(null);
+    setPendingFile(file);
+  };
+
+  return (
+    <div className="p-6 border-t border-blue-500/20">
+      {replyingTo && (
+        <div className="mb-2 flex items-center justify-between gap-x-2 text-sm text-blue-300">
+          <span className="flex min-w-0 items-center gap-x-1">
+            <Reply className="h-3 w-3 flex-shrink-0" />
+            <span className="truncate">
+              {renderQuote({
+                id: replyingTo.id,
+                senderId: replyingTo.senderId,
+                text: replyingTo.text,
+                deletedAt: replyingTo.deletedAt ?? null,
+              })}
+            </span>
+          </span>
+          <button
+            type="button"
+            className="text-gray-400 hover:text-white"
+            onClick={onCancelReply}
+            aria-label="Cancel reply"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+      {editingMessage && (
+        <div className="mb-2 flex items-center justify-between text-sm text-blue-300">
+          <span className="flex items-center gap-x-1">
+            <Pencil className="h-3 w-3" />
+            Editing message
+          </span>
+          <button
+            type="button"
+            className="text-gray-400 hover:text-white"
+            onClick={onCancelEditing}
+            aria-label="Cancel editing"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+      {pendingFile && (
+        <div className="mb-2 flex items-center justify-between gap-x-2 text-sm text-blue-300">
+          <span className="flex min-w-0 items-center gap-x-1">
+            <Paperclip className="h-3 w-3 flex-shrink-0" />
+            <span className="truncate">{pendingFile.name}</span>
+            {isUploading && (
+              <Loader2 className="h-3 w-3 flex-shrink-0 animate-spin" />
+            )}
+          </span>
+          <button
+            type="button"
+            className="text-gray-400 hover:text-white disabled:opacity-50"
+            onClick={() => setPendingFile(null)}
+            disabled={isUploading}
+            aria-label="Remove attachment"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+      {showPreview && message.trim() && (
+        <div className="mb-2 max-h-48 overflow-y-auto rounded-lg border border-blue-500/20 bg-gray-800/60 p-3 text-sm break-words">
+          <ChatMarkdown text={message} />
+        </div>
+      )}
+      <form onSubmit={handleSubmit} className="flex items-end gap-x-4">
+        {!editingMessage && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ALLOWED_ATTACHMENT_TYPES.join(",")}
+              className="hidden"
+              onChange={handleFilePicked}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              className="text-gray-300 hover:bg-gray-800 hover:text-white"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+              aria-label="Attach a file"
+            >
+              <Paperclip className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              className="text-gray-300 hover:bg-gray-800 hover:text-white"
+              onClick={onProposeSession}
+              disabled={!onProposeSession || !isConnected}
+              aria-label="Propose a study session"
+            >
+              <CalendarPlus className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+        <Textarea
+          value={message}
+          onChange={(e) => handleMessageChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") {
+              if (editingMessage) onCancelEditing();
+              onCancelReply();
+              return;
+            }
+            // Enter sends, Shift+Enter starts a new line (and Enter
+            // while an IME is composing belongs to the IME)
+            if (
+              e.key === "Enter" &&
+              !e.shiftKey &&
+              !e.nativeEvent.isComposing
+            ) {
+              e.preventDefault();
+              if (!isUploading) e.currentTarget.form?.requestSubmit();
+            }
+          }}
+          rows={Math.min(message.split("\n").length, 6)} // Grow with the text
+          maxLength={MAX_MESSAGE_LENGTH}
+          placeholder={
+            isConnected
+              ? "Type your message... (Shift+Enter for a new line)"
+              : "Offline - messages will be sent when you reconnect"
+          }
+          className="min-h-[40px] flex-1 resize-none bg-gray-800 border-blue-500/40 text-white placeholder-gray-400 disabled:opacity-50" // Added disabled style
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          className="text-gray-300 hover:bg-gray-800 hover:text-white"
+          onClick={() => setShowPreview((prev) => !prev)}
+          aria-pressed={showPreview}
+          aria-label={showPreview ? "Hide preview" : "Show preview"}
+        >
+          {showPreview ? (
+            <EyeOff className="h-4 w-4" />
+          ) : (
+            <Eye className="h-4 w-4" />
+          )}
+        </Button>
+        <Button
+          type="submit"
+          className="bg-blue-500 hover:bg-blue-600 disabled:opacity-50" // Added disabled style
+          disabled={(!message.trim() && !pendingFile) || isUploading} // Offline messages go to the outbox
+        >
+          <Send className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+}
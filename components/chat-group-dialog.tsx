@@ -0,0 +1,171 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface GroupCandidate {
+  id: string;
+  name: string;
+  avatar_url?: string | null;
+}
+
+interface ChatGroupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description?: string;
+  submitLabel: string;
+  showName?: boolean; // Ask for the group name (creating, renaming)
+  initialName?: string;
+  candidates?: GroupCandidate[]; // Matches that can be picked as members
+  // Saves the choice; resolves to an error message, or null when done
+  onSubmit: (values: {
+    name: string;
+    memberIds: string[];
+  }) => Promise<string | null>;
+}
+
+// Dialog for creating a group, inviting matches into one, or renaming it
+export function ChatGroupDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  submitLabel,
+  showName = false,
+  initialName = "",
+  candidates,
+  onSubmit,
+}: ChatGroupDialogProps) {
+  const [name, setName] = useState(initialName);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start fresh every time it opens
+  useEffect(() => {
+    if (!open) return;
+    setName(initialName);
+    setSelectedIds([]);
+    setError(null);
+  }, [open, initialName]);
+
+  const toggleMember = (id: string, checked: boolean) => {
+    setSelectedIds((prev) =>
+      checked ? [...prev, id] : prev.filter((selected) => selected !== id)
+    );
+  };
+
+  const canSubmit =
+    (!showName || !!name.trim()) &&
+    (!candidates || selectedIds.length > 0) &&
+    !isSaving;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setIsSaving(true);
+    const problem = await onSubmit({
+      name: name.trim(),
+      memberIds: selectedIds,
+    });
+    setIsSaving(false);
+    if (problem) {
+      setError(problem);
+    } else {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-blue-500/20 bg-gray-900 text-white">
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            {description && (
+              <DialogDescription className="text-gray-400">
+                {description}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {showName && (
+            <div className="grid gap-2">
+              <Label htmlFor="group-name" className="text-gray-300">
+                Group name
+              </Label>
+              <Input
+                id="group-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={80}
+                placeholder="e.g. Algorithms study group"
+                className="bg-gray-800 border-blue-500/40 text-white placeholder-gray-400"
+              />
+            </div>
+          )}
+          {candidates &&
+            (candidates.length === 0 ? (
+              <p className="text-sm text-gray-400">
+                All of your matches are already in this group.
+              </p>
+            ) : (
+              <div className="grid max-h-64 gap-1 overflow-y-auto">
+                {candidates.map((candidate) => (
+                  <Label
+                    key={candidate.id}
+                    className="flex cursor-pointer items-center gap-x-3 rounded-md p-2 font-normal hover:bg-gray-800"
+                  >
+                    <Checkbox
+                      checked={selectedIds.includes(candidate.id)}
+                      onCheckedChange={(checked) =>
+                        toggleMember(candidate.id, checked === true)
+                      }
+                      className="border-blue-500/60"
+                    />
+                    <Avatar className="h-7 w-7">
+                      <AvatarImage
+                        src={
+                          candidate.avatar_url ||
+                          `https://api.dicebear.com/8.x/initials/svg?seed=${candidate.name}`
+                        }
+                        alt={candidate.name}
+                      />
+                      <AvatarFallback>
+                        {candidate.name.substring(0, 2)}
+                      </AvatarFallback>
+                    </Avatar>
+                    <span className="truncate">{candidate.name}</span>
+                  </Label>
+                ))}
+              </div>
+            ))}
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <DialogFooter>
+            <Button
+              type="submit"
+              className="bg-blue-500 hover:bg-blue-600 disabled:opacity-50"
+              disabled={!canSubmit}
+            >
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {submitLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import Markdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkBreaks from "remark-breaks";
+import rehypeHighlight from "rehype-highlight";
+import "highlight.js/styles/github-dark.css";
+
+// The subset of Markdown chat messages may use. Anything else (headings,
+// tables, images, quotes...) is shown as its plain text content. Raw HTML
+// is never rendered and react-markdown drops unsafe link URLs
+// (e.g. javascript:), so message text can't inject markup or scripts.
+const ALLOWED_ELEMENTS = [
+  "p",
+  "br",
+  "strong",
+  "em",
+  "ul",
+  "ol",
+  "li",
+  "code",
+  "pre",
+  "span", // Syntax highlighting tokens
+  "a",
+];
+
+const components: Components = {
+  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+  ul: ({ children }) => (
+    <ul className="mb-2 list-disc pl-5 last:mb-0">{children}</ul>
+  ),
+  ol: ({ children }) => (
+    <ol className="mb-2 list-decimal pl-5 last:mb-0">{children}</ol>
+  ),
+  a: ({ href, children }) => (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className="underline underline-offset-2 hover:opacity-80"
+    >
+      {children}
+    </a>
+  ),
+  pre: ({ children }) => (
+    <pre className="mb-2 overflow-x-auto rounded bg-[#0d1117] p-2 text-xs last:mb-0">
+      {children}
+    </pre>
+  ),
+  code: ({ className, children }) => (
+    // Inline code gets its own chip; in a block, <pre> (matching the
+    // github-dark theme's background) provides it
+    <code
+      className={`${className ?? ""} rounded bg-black/30 px-1 font-mono text-[0.9em] [pre_&]:!bg-transparent [pre_&]:!p-0`}
+    >
+      {children}
+    </code>
+  ),
+};
+
+// Renders a chat message's text as safe, chat-sized Markdown: bold, italic,
+// lists, inline code, fenced code blocks (highlighted when a language is
+// given, e.g. ```python) and auto-linked URLs. Single line breaks are kept.
+export function ChatMarkdown({ text }: { text: string }) {
+  return (
+    <Markdown
+      remarkPlugins={[remarkGfm, remarkBreaks]}
+      rehypePlugins={[rehypeHighlight]}
+      allowedElements={ALLOWED_ELEMENTS}
+      unwrapDisallowed
+      components={components}
+    >
+      {text}
+    </Markdown>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import {
+  useEffect,
+  useImperativeHandle,
+  useLayoutEffect,
+  useRef,
+  type ReactNode,
+  type Ref,
+} from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { Loader2 } from "lucide-react";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+
+// Lets the chat page scroll to a message (e.g. the original of a reply)
+export interface ChatMessageListHandle {
+  scrollToIndex: (index: number) => void;
+}
+
+interface ChatMessageListProps<T extends { id: string }> {
+  messages: T[]; // Oldest first
+  renderMessage: (message: T, index: number) => ReactNode;
+  isOwnMessage: (message: T) => boolean; // Sending one always scrolls to it
+  hasOlder: boolean; // More history exists above the first message
+  isLoadingOlder: boolean;
+  onLoadOlder: () => void;
+  onVisibleRangeChange?: (startIndex: number, endIndex: number) => void;
+  listRef?: Ref<ChatMessageListHandle>;
+  className?: string;
+}
+
+// Rough bubble height before a message is measured
+const ESTIMATED_MESSAGE_HEIGHT = 88;
+// Start loading the previous page this close to the top
+const LOAD_OLDER_THRESHOLD_PX = 300;
+// Counts as "at the bottom" (keep following new messages) within this distance
+const FOLLOW_THRESHOLD_PX = 80;
+
+// Virtualized, bottom-anchored message list: only the messages near the
+// viewport are rendered, older pages are requested when scrolling up, the
+// scroll position holds while they're prepended, and new messages are
+// followed while the user is at the bottom.
+export function ChatMessageList<T extends { id: string }>({
+  messages,
+  renderMessage,
+  isOwnMessage,
+  hasOlder,
+  isLoadingOlder,
+  onLoadOlder,
+  onVisibleRangeChange,
+  listRef,
+  className,
+}: ChatMessageListProps<T>) {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const virtualizer = useVirtualizer({
+    count: messages.length,
+    getScrollElement: () => viewportRef.current,
+    estimateSize: () => ESTIMATED_MESSAGE_HEIGHT,
+    getItemKey: (index) => messages[index].id,
+    overscan: 8,
+    anchorTo: "end", // Keep the visible message in place when older ones are added
+    followOnAppend: "smooth",
+    scrollEndThreshold: FOLLOW_THRESHOLD_PX,
+  });
+
+  useImperativeHandle(
+    listRef,
+    () => ({
+      scrollToIndex: (index) =>
+        virtualizer.scrollToIndex(index, { align: "center" }),
+    }),
+    [virtualizer]
+  );
+
+  // Jump to the newest message when the first page arrives, and scroll to
+  // our own new messages even if we were reading further up
+  const lastMessage = messages[messages.length - 1];
+  const previousLastIdRef = useRef<string | null>(null);
+  useLayoutEffect(() => {
+    const previousLastId = previousLastIdRef.current;
+    previousLastIdRef.current = lastMessage?.id ?? null;
+    if (!lastMessage || lastMessage.id === previousLastId) return;
+    if (previousLastId === null) {
+      virtualizer.scrollToEnd();
+    } else if (isOwnMessage(lastMessage)) {
+      virtualizer.scrollToEnd({ behavior: "smooth" });
+    }
+  }, [lastMessage, isOwnMessage, virtualizer]);
+
+  // Request the previous page near the top, or right away while the loaded
+  // messages don't fill the viewport yet
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || !hasOlder || isLoadingOlder) return;
+    const checkTop = () => {
+      if (viewport.scrollTop < LOAD_OLDER_THRESHOLD_PX) onLoadOlder();
+    };
+    if (viewport.scrollHeight <= viewport.clientHeight) {
+      onLoadOlder();
+      return;
+    }
+    viewport.addEventListener("scroll", checkTop, { passive: true });
+    return () => viewport.removeEventListener("scroll", checkTop);
+  }, [hasOlder, isLoadingOlder, onLoadOlder, messages.length]);
+
+  // Report which messages are on screen (e.g. to mark them read)
+  const startIndex = virtualizer.range?.startIndex;
+  const endIndex = virtualizer.range?.endIndex;
+  useEffect(() => {
+    if (startIndex === undefined || endIndex === undefined) return;
+    onVisibleRangeChange?.(startIndex, endIndex);
+  }, [startIndex, endIndex, onVisibleRangeChange]);
+
+  return (
+    <div className={cn("relative min-h-0", className)}>
+      <ScrollArea className="h-full p-6" viewportRef={viewportRef}>
+        <div
+          className="relative w-full"
+          style={{ height: virtualizer.getTotalSize() }}
+        >
+          {virtualizer.getVirtualItems().map((item) => (
+            <div
+              key={item.key}
+              data-index={item.index}
+              ref={virtualizer.measureElement}
+              className="absolute left-0 top-0 w-full pb-4"
+              style={{ transform: `translateY(${item.start}px)` }}
+            >
+              {renderMessage(messages[item.index], item.index)}
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+      {isLoadingOlder && (
+        <div className="pointer-events-none absolute inset-x-0 top-2 flex justify-center">
+          <Loader2
+            className="h-5 w-5 animate-spin text-gray-400"
+            aria-label="Loading older messages"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
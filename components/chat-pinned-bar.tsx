@@ -0,0 +1,74 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { ChevronDown, Pin, PinOff } from "lucide-react";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import type { MessageQuote, PinnedMessage } from "@/types/socket";
+
+interface ChatPinnedBarProps {
+  pins: PinnedMessage[];
+  open: boolean; // Opened by the page too, when a pin comes in
+  onOpenChange: (open: boolean) => void;
+  renderQuote: (quote: MessageQuote) => ReactNode;
+  onJump: (messageId: string) => void;
+  onUnpin: (messageId: string) => void;
+}
+
+// Collapsible list of the conversation's pinned messages above the history;
+// renders nothing while there are none
+export function ChatPinnedBar({
+  pins,
+  open,
+  onOpenChange,
+  renderQuote,
+  onJump,
+  onUnpin,
+}: ChatPinnedBarProps) {
+  if (pins.length === 0) return null;
+
+  return (
+    <Collapsible
+      open={open}
+      onOpenChange={onOpenChange}
+      className="border-b border-blue-500/20 bg-gray-800/40 px-6 py-2"
+    >
+      <CollapsibleTrigger className="flex w-full items-center gap-x-2 text-sm text-yellow-400 hover:text-yellow-300">
+        <Pin className="h-4 w-4" />
+        Pinned ({pins.length})
+        <ChevronDown
+          className={`ml-auto h-4 w-4 transition-transform ${
+            open ? "rotate-180" : ""
+          }`}
+        />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-2 max-h-48 space-y-1 overflow-y-auto">
+        {pins.map((pin) => (
+          <div
+            key={pin.message.id}
+            className="flex items-start gap-x-2 rounded text-sm hover:bg-gray-800"
+          >
+            <button
+              type="button"
+              className="min-w-0 flex-1 px-2 py-1 text-left text-gray-300"
+              onClick={() => onJump(pin.message.id)}
+            >
+              {renderQuote(pin.message)}
+            </button>
+            <button
+              type="button"
+              className="p-1 text-gray-400 hover:text-white"
+              onClick={() => onUnpin(pin.message.id)}
+              aria-label="Unpin message"
+            >
+              <PinOff className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
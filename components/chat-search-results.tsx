@@ -0,0 +1,153 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { useChatSocket } from "@/components/chat-socket-provider";
+import type { MessageSearchResult, SearchMessagesAck } from "@/types/socket";
+
+// Searches start once the query has this many characters (server/search.js
+// rejects shorter ones)
+export const MIN_SEARCH_LENGTH = 2;
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+const SEARCH_ACK_TIMEOUT_MS = 10000;
+
+// Markers the server puts around each hit in a snippet
+const HIT_START = "\uE000";
+const HIT_END = "\uE001";
+
+// Renders a snippet with its hits highlighted (as text, never as HTML)
+function Snippet({ snippet }: { snippet: string }) {
+  const [before, ...hits] = snippet.split(HIT_START);
+  return (
+    <>
+      {before}
+      {hits.map((part, i) => {
+        const [hit, rest = ""] = part.split(HIT_END);
+        return (
+          <span key={i}>
+            <mark className="rounded-sm bg-yellow-400/40 text-inherit">
+              {hit}
+            </mark>
+            {rest}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
+interface ChatSearchResultsProps {
+  query: string;
+  currentUserId: string;
+  getConversationName: (roomId: string) => string; // Match or group name
+  onSelect: (result: MessageSearchResult) => void;
+}
+
+// Messages matching the query across all of the user's conversations,
+// newest first. The search runs on the chat server.
+export function ChatSearchResults({
+  query,
+  currentUserId,
+  getConversationName,
+  onSelect,
+}: ChatSearchResultsProps) {
+  const { socket, isConnected } = useChatSocket();
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const trimmedQuery = query.trim();
+  useEffect(() => {
+    setResults([]);
+    setError(null);
+    if (trimmedQuery.length < MIN_SEARCH_LENGTH) return;
+    if (!socket || !isConnected) {
+      setError("You're offline - reconnect to search messages.");
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const ack: SearchMessagesAck = await socket
+          .timeout(SEARCH_ACK_TIMEOUT_MS)
+          .emitWithAck("search:messages", { query: trimmedQuery });
+        if (cancelled) return;
+        if (ack.ok) {
+          setResults(ack.results);
+        } else {
+          console.error(`Search failed (${ack.code}):`, ack.message);
+          setError(ack.message);
+        }
+      } catch (err) {
+        console.warn("No acknowledgement for search:", err);
+        if (!cancelled) setError("Search failed. Please try again.");
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setIsSearching(false);
+    };
+  }, [trimmedQuery, socket, isConnected]);
+
+  if (trimmedQuery.length < MIN_SEARCH_LENGTH) {
+    return (
+      <p className="p-4 text-sm text-gray-400">
+        Type at least {MIN_SEARCH_LENGTH} characters to search.
+      </p>
+    );
+  }
+  if (isSearching) {
+    return (
+      <div className="flex justify-center p-4">
+        <Loader2
+          className="h-5 w-5 animate-spin text-gray-400"
+          aria-label="Searching"
+        />
+      </div>
+    );
+  }
+  if (error) {
+    return <p className="p-4 text-sm text-red-500">{error}</p>;
+  }
+  if (results.length === 0) {
+    return <p className="p-4 text-sm text-gray-400">No messages found.</p>;
+  }
+
+  return (
+    <ul>
+      {results.map((result) => {
+        return (
+          <li key={result.messageId}>
+            <button
+              type="button"
+              className="mb-1 w-full rounded-md p-3 text-left hover:bg-gray-700/50"
+              onClick={() => onSelect(result)}
+            >
+              <span className="flex items-baseline justify-between gap-x-2">
+                <span className="truncate text-sm font-semibold">
+                  {getConversationName(result.roomId)}
+                </span>
+                <span className="flex-shrink-0 text-xs text-gray-400">
+                  {format(new Date(result.createdAt), "d MMM yyyy")}
+                </span>
+              </span>
+              <span className="line-clamp-2 text-sm text-gray-300">
+                {result.senderId === currentUserId && (
+                  <span className="text-gray-400">You: </span>
+                )}
+                <Snippet snippet={result.snippet} />
+              </span>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  type ReactNode,
+} from "react";
+import { io, Socket } from "socket.io-client";
+import { useSupabaseClient, useUser } from "@supabase/auth-helpers-react";
+import type { ModerationWarning, UnreadCount } from "@/types/socket";
+
+interface ChatSocketContextValue {
+  socket: Socket | null; // Shared Socket.IO connection, null while logged out
+  isConnected: boolean;
+  isReconnecting: boolean; // Lost a working connection and trying to get it back
+  unreadCounts: Record<string, number>; // Unread messages per room ID
+  isSuspended: boolean; // A moderator suspended the account, chat is closed
+  warnings: ModerationWarning[]; // Moderator warnings not yet acknowledged
+  acknowledgeWarning: (warningId: string) => void;
+}
+
+const ChatSocketContext = createContext<ChatSocketContextValue>({
+  socket: null,
+  isConnected: false,
+  isReconnecting: false,
+  unreadCounts: {},
+  isSuspended: false,
+  warnings: [],
+  acknowledgeWarning: () => {},
+});
+
+// Reconnect backoff: 1s, 2s, 4s... capped at 30s (Socket.IO adds ±50% jitter)
+const RECONNECT_DELAY_MS = 1000;
+const RECONNECT_DELAY_MAX_MS = 30000;
+
+// Keeps one authenticated Socket.IO connection for the whole dashboard, so
+// pages outside the chat (e.g. the nav) can show live unread counts.
+export function ChatSocketProvider({ children }: { children: ReactNode }) {
+  const supabase = useSupabaseClient();
+  const user = useUser();
+  const userId = user?.id;
+  const [socket, setSocket] = useState<Socket | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const [isSuspended, setIsSuspended] = useState(false);
+  const [warnings, setWarnings] = useState<ModerationWarning[]>([]);
+
+  useEffect(() => {
+    if (!userId) return; // No session, no socket
+
+    console.log("Initializing IO client for user:", userId);
+    const newSocket = io({
+      autoConnect: true,
+      transports: ["websocket"], // Force WebSocket transport
+      reconnection: true,
+      reconnectionDelay: RECONNECT_DELAY_MS,
+      reconnectionDelayMax: RECONNECT_DELAY_MAX_MS,
+      randomizationFactor: 0.5,
+      // Send the Supabase access token with every (re)connection handshake;
+      // the server verifies it and derives our user ID from it
+      auth: (cb) => {
+        supabase.auth
+          .getSession()
+          .then(({ data: { session } }) =>
+            cb({ token: session?.access_token })
+          );
+      },
+    });
+
+    // Socket.IO only retries by itself after transport failures. When the
+    // server refuses or drops us (e.g. an expired token that getSession has
+    // since refreshed), retry ourselves with the same backoff.
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let retryAttempt = 0;
+    const scheduleRetry = (delayMs?: number) => {
+      if (retryTimer) return;
+      const delay =
+        delayMs ??
+        Math.min(
+          RECONNECT_DELAY_MS * 2 ** retryAttempt,
+          RECONNECT_DELAY_MAX_MS
+        );
+      retryAttempt++;
+      console.log(`Retrying socket connection in ${delay}ms`);
+      retryTimer = setTimeout(() => {
+        retryTimer = null;
+        newSocket.connect();
+      }, delay);
+    };
+
+    newSocket.on("connect", () => {
+      // No registerUser step: the server identifies us from the token
+      console.log("Socket connected:", newSocket.id, "for user:", userId);
+      retryAttempt = 0;
+      setIsConnected(true);
+      setIsReconnecting(false);
+    });
+
+    // Suspended while connected: the server disconnects us next
+    newSocket.on("moderation:suspended", () => {
+      setIsSuspended(true);
+    });
+
+    newSocket.on("disconnect", (reason) => {
+      console.log("Socket disconnected:", reason);
+      setIsConnected(false);
+      if (reason === "io client disconnect") return; // We closed it on purpose
+      setIsReconnecting(true);
+      if (!newSocket.active) scheduleRetry();
+    });
+
+    newSocket.on("connect_error", (err) => {
+      if (err.message === "AccountSuspended") {
+        // Retrying won't help
+        console.error("Socket rejected: account suspended.");
+        setIsConnected(false);
+        setIsReconnecting(false);
+        setIsSuspended(true);
+        return;
+      }
+      if (err.message === "RateLimited") {
+        // Disconnected for flooding: the server says when we may come back
+        const retryAfterMs = (err as { data?: { retryAfterMs?: number } }).data
+          ?.retryAfterMs;
+        console.warn(`Socket rejected: rate limited for ${retryAfterMs}ms.`);
+        setIsConnected(false);
+        scheduleRetry(retryAfterMs);
+        return;
+      }
+      if (err.message === "Unauthorized") {
+        console.error("Socket rejected: session is missing or invalid.");
+      } else {
+        console.error("Socket connection error:", err);
+      }
+      setIsConnected(false);
+      if (!newSocket.active) scheduleRetry();
+    });
+
+    // Unread counts: all rooms on connect, then per-room changes
+    newSocket.on("unread:snapshot", (counts: UnreadCount[]) => {
+      setUnreadCounts(
+        Object.fromEntries(counts.map((c) => [c.roomId, c.count]))
+      );
+    });
+    newSocket.on("unread:update", ({ roomId, count }: UnreadCount) => {
+      setUnreadCounts((prev) => ({ ...prev, [roomId]: count }));
+    });
+
+    // Pending warnings on connect, new ones as they're given
+    newSocket.on("moderation:warning", (warning: ModerationWarning) => {
+      setWarnings((prev) =>
+        prev.some((w) => w.id === warning.id) ? prev : [...prev, warning]
+      );
+    });
+
+    setSocket(newSocket);
+
+    return () => {
+      console.log("Cleaning up socket instance:", newSocket.id);
+      if (retryTimer) clearTimeout(retryTimer);
+      newSocket.removeAllListeners();
+      newSocket.disconnect();
+      setSocket(null);
+      setIsConnected(false);
+      setIsReconnecting(false);
+      setUnreadCounts({});
+      setIsSuspended(false);
+      setWarnings([]);
+    };
+  }, [userId, supabase]);
+
+  const acknowledgeWarning = useCallback(
+    (warningId: string) => {
+      setWarnings((prev) => prev.filter((w) => w.id !== warningId));
+      socket?.emit("moderation:acknowledge", { warningId });
+    },
+    [socket]
+  );
+
+  return (
+    <ChatSocketContext.Provider
+      value={{
+        socket,
+        isConnected,
+        isReconnecting,
+        unreadCounts,
+        isSuspended,
+        warnings,
+        acknowledgeWarning,
+      }}
+    >
+      {children}
+    </ChatSocketContext.Provider>
+  );
+}
+
+export function useChatSocket() {
+  return useContext(ChatSocketContext);
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { useChatSocket } from "@/components/chat-socket-provider";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { CreateReportAck, ReportReason } from "@/types/socket";
+
+const REPORT_ACK_TIMEOUT_MS = 10000;
+// Same limit as server/moderation.js
+const MAX_DETAILS_LENGTH = 1000;
+
+export const REPORT_REASONS: { value: ReportReason; label: string }[] = [
+  { value: "harassment", label: "Harassment or bullying" },
+  { value: "spam", label: "Spam or scam" },
+  { value: "inappropriate", label: "Inappropriate content" },
+  { value: "other", label: "Something else" },
+];
+
+// What is being reported: one message, or someone's profile
+export type ReportTarget =
+  | { kind: "message"; messageId: string; roomId: string; userName: string }
+  | { kind: "user"; userId: string; userName: string };
+
+interface ReportDialogProps {
+  target: ReportTarget | null; // null while closed
+  onOpenChange: (open: boolean) => void;
+}
+
+// Asks for a reason and details and sends the report to the chat server,
+// which stores it with a snapshot of the content for the moderators
+export function ReportDialog({ target, onOpenChange }: ReportDialogProps) {
+  const { socket, isConnected } = useChatSocket();
+  const [reason, setReason] = useState<ReportReason | "">("");
+  const [details, setDetails] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+
+  // Start fresh every time it opens
+  useEffect(() => {
+    if (!target) return;
+    setReason("");
+    setDetails("");
+    setError(null);
+    setIsSent(false);
+  }, [target]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!target || !reason || isSending) return;
+    if (!socket || !isConnected) {
+      setError("You're offline - reconnect and try again.");
+      return;
+    }
+    setIsSending(true);
+    try {
+      const ack: CreateReportAck = await socket
+        .timeout(REPORT_ACK_TIMEOUT_MS)
+        .emitWithAck("report:create", {
+          reason,
+          details: details.trim(),
+          ...(target.kind === "message"
+            ? { messageId: target.messageId, roomId: target.roomId }
+            : { userId: target.userId }),
+        });
+      if (!ack.ok) {
+        console.error(`Report failed (${ack.code}):`, ack.message);
+        setError(ack.message);
+        return;
+      }
+      setIsSent(true);
+    } catch (err) {
+      console.warn("No acknowledgement for report:", err);
+      setError("Your report could not be sent. Please try again.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={onOpenChange}>
+      <DialogContent className="border-blue-500/20 bg-gray-900 text-white">
+        {isSent ? (
+          <>
+            <DialogHeader>
+              <DialogTitle>Thanks for letting us know</DialogTitle>
+              <DialogDescription className="text-gray-400">
+                A moderator will review your report. {target?.userName}{" "}
+                won&apos;t be told who reported them.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button
+                className="bg-blue-500 hover:bg-blue-600"
+                onClick={() => onOpenChange(false)}
+              >
+                Done
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit} className="grid gap-4">
+            <DialogHeader>
+              <DialogTitle>
+                {target?.kind === "message"
+                  ? "Report message"
+                  : `Report ${target?.userName ?? "user"}`}
+              </DialogTitle>
+              <DialogDescription className="text-gray-400">
+                {target?.kind === "message"
+                  ? `Tell us what's wrong with this message from ${target.userName}.`
+                  : "Tell us what's wrong with this profile."}
+              </DialogDescription>
+            </DialogHeader>
+            <RadioGroup
+              value={reason}
+              onValueChange={(value) => setReason(value as ReportReason)}
+            >
+              {REPORT_REASONS.map(({ value, label }) => (
+                <Label
+                  key={value}
+                  className="flex cursor-pointer items-center gap-x-3 font-normal"
+                >
+                  <RadioGroupItem
+                    value={value}
+                    className="border-blue-500/60 text-blue-400"
+                  />
+                  {label}
+                </Label>
+              ))}
+            </RadioGroup>
+            <div className="grid gap-2">
+              <Label htmlFor="report-details" className="text-gray-300">
+                Details (optional)
+              </Label>
+              <Textarea
+                id="report-details"
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+                maxLength={MAX_DETAILS_LENGTH}
+                placeholder="Anything that helps the moderators understand what happened"
+                className="bg-gray-800 border-blue-500/40 text-white placeholder-gray-400"
+              />
+            </div>
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            <DialogFooter>
+              <Button
+                type="submit"
+                className="bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                disabled={!reason || isSending}
+              >
+                {isSending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Send report
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
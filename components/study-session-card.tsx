@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import {
+  CalendarDays,
+  Check,
+  Clock,
+  Download,
+  Loader2,
+  MapPin,
+  X,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  formatDuration,
+  isMeetingLink,
+  sessionEndsAt,
+} from "@/lib/study-sessions";
+import type { StudySession, StudySessionStatus } from "@/types/socket";
+
+const STATUS_BADGES: Record<
+  StudySessionStatus,
+  { label: string; className: string }
+> = {
+  proposed: {
+    label: "Proposed",
+    className: "bg-blue-500/80 hover:bg-blue-500/80",
+  },
+  accepted: { label: "Accepted", className: "bg-green-600 hover:bg-green-600" },
+  declined: { label: "Declined", className: "bg-red-600 hover:bg-red-600" },
+  rescheduled: {
+    label: "Another time suggested",
+    className: "bg-gray-600 hover:bg-gray-600",
+  },
+};
+
+interface StudySessionCardProps {
+  session: StudySession;
+  currentUserId: string | undefined;
+  getName: (userId: string) => string; // Who answered it
+  // Both resolve once the server answered (errors are shown by the page)
+  onRespond: (
+    session: StudySession,
+    response: "accept" | "decline"
+  ) => Promise<void>;
+  onSuggestTime: (session: StudySession) => void;
+}
+
+// A study session proposal as shown in its chat message: the details, its
+// status, and for the others the buttons to answer it while it's open
+export function StudySessionCard({
+  session,
+  currentUserId,
+  getName,
+  onRespond,
+  onSuggestTime,
+}: StudySessionCardProps) {
+  const [pending, setPending] = useState<"accept" | "decline" | null>(null);
+  const start = new Date(session.startsAt);
+  const location = session.location.trim();
+  const badge = STATUS_BADGES[session.status];
+  const isOpen = session.status === "proposed" && start.getTime() > Date.now();
+  const canAnswer = isOpen && session.proposedBy !== currentUserId;
+  const isUpcoming =
+    session.status === "accepted" &&
+    sessionEndsAt(session).getTime() > Date.now();
+
+  const respond = async (response: "accept" | "decline") => {
+    setPending(response);
+    try {
+      await onRespond(session, response);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="grid min-w-[16rem] gap-2">
+      <div className="flex items-start justify-between gap-x-3">
+        <p className="font-semibold">{session.topic}</p>
+        <Badge className={`flex-shrink-0 text-white ${badge.className}`}>
+          {badge.label}
+        </Badge>
+      </div>
+      <div className="grid gap-1 text-sm text-gray-200">
+        <span className="flex items-center gap-x-2">
+          <CalendarDays className="h-4 w-4 flex-shrink-0" />
+          {format(start, "EEE d MMM yyyy, HH:mm")}
+        </span>
+        <span className="flex items-center gap-x-2">
+          <Clock className="h-4 w-4 flex-shrink-0" />
+          {formatDuration(session.durationMinutes)}
+        </span>
+        {location && (
+          <span className="flex items-center gap-x-2">
+            <MapPin className="h-4 w-4 flex-shrink-0" />
+            {isMeetingLink(location) ? (
+              <a
+                href={location}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="truncate underline hover:text-white"
+              >
+                {location}
+              </a>
+            ) : (
+              <span className="break-words">{location}</span>
+            )}
+          </span>
+        )}
+      </div>
+      {session.respondedBy &&
+        (session.status === "accepted" || session.status === "declined") && (
+          <p className="text-xs text-gray-300">
+            {session.status === "accepted" ? "Accepted" : "Declined"} by{" "}
+            {session.respondedBy === currentUserId
+              ? "you"
+              : getName(session.respondedBy)}
+          </p>
+        )}
+      {canAnswer && (
+        <div className="flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            className="bg-green-600 hover:bg-green-700"
+            onClick={() => respond("accept")}
+            disabled={!!pending}
+          >
+            {pending === "accept" ? (
+              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+            ) : (
+              <Check className="mr-1 h-4 w-4" />
+            )}
+            Accept
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="border-gray-500 bg-transparent text-white hover:bg-gray-600 hover:text-white"
+            onClick={() => respond("decline")}
+            disabled={!!pending}
+          >
+            {pending === "decline" ? (
+              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+            ) : (
+              <X className="mr-1 h-4 w-4" />
+            )}
+            Decline
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="text-gray-200 hover:bg-gray-600 hover:text-white"
+            onClick={() => onSuggestTime(session)}
+            disabled={!!pending}
+          >
+            Suggest another time
+          </Button>
+        </div>
+      )}
+      {isUpcoming && (
+        <a
+          href={`/api/sessions/ics?sessionId=${encodeURIComponent(session.id)}`}
+          className="flex items-center gap-x-1 text-xs text-blue-200 underline hover:text-white"
+        >
+          <Download className="h-3 w-3" />
+          Add to calendar (.ics)
+        </a>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format, startOfToday } from "date-fns";
+import { CalendarDays, Loader2 } from "lucide-react";
+import { useChatSocket } from "@/components/chat-socket-provider";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  MAX_SESSION_LOCATION_LENGTH,
+  MAX_SESSION_TOPIC_LENGTH,
+  SESSION_DURATIONS,
+  formatDuration,
+} from "@/lib/study-sessions";
+import type {
+  ProposeSessionRequest,
+  SendMessageAck,
+  SocketChatMessage,
+  StudySession,
+} from "@/types/socket";
+
+const PROPOSE_ACK_TIMEOUT_MS = 10000;
+const DEFAULT_DURATION_MINUTES = 60;
+
+// Where the proposal goes, and the proposal it suggests another time for
+export interface StudySessionTarget {
+  roomId: string;
+  replaces: StudySession | null;
+}
+
+interface StudySessionDialogProps {
+  target: StudySessionTarget | null; // null while closed
+  onOpenChange: (open: boolean) => void;
+  // Called with the proposal message once the server stored it
+  onProposed: (message: SocketChatMessage) => void;
+}
+
+// Asks for a date, time, duration, place and topic and posts the proposal
+// to the conversation, where the others can accept or decline it
+export function StudySessionDialog({
+  target,
+  onOpenChange,
+  onProposed,
+}: StudySessionDialogProps) {
+  const { socket, isConnected } = useChatSocket();
+  const [date, setDate] = useState<Date | undefined>();
+  const [time, setTime] = useState("");
+  const [duration, setDuration] = useState(DEFAULT_DURATION_MINUTES);
+  const [location, setLocation] = useState("");
+  const [topic, setTopic] = useState("");
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  // Start fresh every time it opens; another time for a proposal keeps
+  // what it was about
+  useEffect(() => {
+    if (!target) return;
+    setDate(undefined);
+    setTime("");
+    setDuration(target.replaces?.durationMinutes ?? DEFAULT_DURATION_MINUTES);
+    setLocation(target.replaces?.location ?? "");
+    setTopic(target.replaces?.topic ?? "");
+    setError(null);
+  }, [target]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!target || !date || !time || !topic.trim() || isSending) return;
+    const [hours, minutes] = time.split(":").map(Number);
+    const startsAt = new Date(date);
+    startsAt.setHours(hours, minutes, 0, 0);
+    if (startsAt.getTime() <= Date.now()) {
+      setError("Pick a time in the future.");
+      return;
+    }
+    if (!socket || !isConnected) {
+      setError("You're offline - reconnect and try again.");
+      return;
+    }
+    setIsSending(true);
+    try {
+      const request: ProposeSessionRequest = {
+        roomId: target.roomId,
+        startsAt: startsAt.toISOString(),
+        durationMinutes: duration,
+        location: location.trim(),
+        topic: topic.trim(),
+        ...(target.replaces ? { replacesSessionId: target.replaces.id } : {}),
+      };
+      const ack: SendMessageAck = await socket
+        .timeout(PROPOSE_ACK_TIMEOUT_MS)
+        .emitWithAck("session:propose", request);
+      if (!ack.ok) {
+        console.error(`Proposal failed (${ack.code}):`, ack.message);
+        setError(ack.message);
+        return;
+      }
+      onProposed(ack.message);
+      onOpenChange(false);
+    } catch (err) {
+      console.warn("No acknowledgement for session proposal:", err);
+      setError("The proposal could not be sent. Please try again.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={onOpenChange}>
+      <DialogContent className="border-blue-500/20 bg-gray-900 text-white">
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>
+              {target?.replaces
+                ? "Suggest another time"
+                : "Propose a study session"}
+            </DialogTitle>
+            <DialogDescription className="text-gray-400">
+              {target?.replaces
+                ? "Your new proposal replaces the current one."
+                : "Everyone in the conversation can accept or decline it."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor="session-topic" className="text-gray-300">
+              Topic
+            </Label>
+            <Input
+              id="session-topic"
+              value={topic}
+              onChange={(e) => setTopic(e.target.value)}
+              maxLength={MAX_SESSION_TOPIC_LENGTH}
+              placeholder="e.g. Statistics exam revision"
+              className="bg-gray-800 border-blue-500/40 text-white placeholder-gray-400"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label className="text-gray-300">Date</Label>
+              <Popover open={isCalendarOpen} onOpenChange={setIsCalendarOpen}>
+                <PopoverTrigger asChild>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="justify-start border-blue-500/40 bg-gray-800 font-normal text-white hover:bg-gray-700 hover:text-white"
+                  >
+                    <CalendarDays className="mr-2 h-4 w-4" />
+                    {date ? format(date, "EEE d MMM yyyy") : "Pick a day"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto border-blue-500/20 bg-gray-800 p-0 text-white">
+                  <Calendar
+                    mode="single"
+                    selected={date}
+                    onSelect={(day) => {
+                      setDate(day);
+                      setIsCalendarOpen(false);
+                    }}
+                    disabled={{ before: startOfToday() }}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="session-time" className="text-gray-300">
+                Time
+              </Label>
+              <Input
+                id="session-time"
+                type="time"
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+                className="bg-gray-800 border-blue-500/40 text-white"
+              />
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label className="text-gray-300">Duration</Label>
+            <Select
+              value={String(duration)}
+              onValueChange={(value) => setDuration(Number(value))}
+            >
+              <SelectTrigger className="bg-gray-800 border-blue-500/40 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SESSION_DURATIONS.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {formatDuration(minutes)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="session-location" className="text-gray-300">
+              Location or meeting link (optional)
+            </Label>
+            <Input
+              id="session-location"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              maxLength={MAX_SESSION_LOCATION_LENGTH}
+              placeholder="e.g. Library, room 2.14"
+              className="bg-gray-800 border-blue-500/40 text-white placeholder-gray-400"
+            />
+          </div>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <DialogFooter>
+            <Button
+              type="submit"
+              className="bg-blue-500 hover:bg-blue-600 disabled:opacity-50"
+              disabled={!date || !time || !topic.trim() || isSending}
+            >
+              {isSending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Send proposal
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
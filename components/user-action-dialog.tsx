@@ -0,0 +1,128 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { useChatSocket } from "@/components/chat-socket-provider";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import type { UserActionAck } from "@/types/socket";
+
+const ACTION_ACK_TIMEOUT_MS = 10000;
+
+export type UserAction = "unmatch" | "block";
+
+const ACTIONS: Record<
+  UserAction,
+  {
+    event: string;
+    title: (name: string) => string;
+    description: string;
+    confirmLabel: string;
+  }
+> = {
+  unmatch: {
+    event: "match:unmatch",
+    title: (name) => `Unmatch ${name}?`,
+    description:
+      "Your chat will be archived and you won't be able to message each other. If you match again later, it comes back.",
+    confirmLabel: "Unmatch",
+  },
+  block: {
+    event: "user:block",
+    title: (name) => `Block ${name}?`,
+    description:
+      "You'll be unmatched, won't see each other as study partners again and can't be added to a group together. Groups you're both in already stay as they are - leave them if you like. They won't be told that you blocked them.",
+    confirmLabel: "Block",
+  },
+};
+
+interface UserActionDialogProps {
+  action: UserAction | null; // null while closed
+  user: { id: string; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onDone: (action: UserAction, userId: string) => void; // After the server confirmed
+}
+
+// Confirms unmatching or blocking someone and sends it to the chat server,
+// which ends the 1:1 chat in both users' tabs ("roomClosed")
+export function UserActionDialog({
+  action,
+  user,
+  onOpenChange,
+  onDone,
+}: UserActionDialogProps) {
+  const { socket, isConnected } = useChatSocket();
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const userId = user?.id;
+  useEffect(() => {
+    setError(null); // Start fresh for each confirmation
+  }, [action, userId]);
+
+  const config = action ? ACTIONS[action] : null;
+
+  const handleConfirm = async () => {
+    if (!action || !config || !user) return;
+    if (!socket || !isConnected) {
+      setError("You're offline - reconnect and try again.");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const ack: UserActionAck = await socket
+        .timeout(ACTION_ACK_TIMEOUT_MS)
+        .emitWithAck(config.event, { userId: user.id });
+      if (!ack.ok) {
+        console.error(`${config.event} failed (${ack.code}):`, ack.message);
+        setError(ack.message);
+        return;
+      }
+      onOpenChange(false);
+      onDone(action, user.id);
+    } catch (err) {
+      console.warn(`No acknowledgement for ${config.event}:`, err);
+      setError("Something went wrong. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={!!config && !!user} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="border-blue-500/20 bg-gray-900 text-white">
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {config && user && config.title(user.name)}
+          </AlertDialogTitle>
+          <AlertDialogDescription className="text-gray-400">
+            {config?.description}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        <AlertDialogFooter>
+          <AlertDialogCancel className="bg-transparent text-white hover:bg-gray-800 hover:text-white">
+            Cancel
+          </AlertDialogCancel>
+          {/* Not an AlertDialogAction, which would close before the ack */}
+          <Button
+            className="bg-red-600 hover:bg-red-700"
+            onClick={handleConfirm}
+            disabled={isSaving}
+          >
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {config?.confirmLabel}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
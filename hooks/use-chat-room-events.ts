@@ -0,0 +1,392 @@
+"use client";
+
+import {
+  useCallback,
+  useEffect,
+  useState,
+  type Dispatch,
+  type MutableRefObject,
+  type SetStateAction,
+} from "react";
+import type { Socket } from "socket.io-client";
+import type { User } from "@supabase/supabase-js";
+import {
+  fromSocketMessage,
+  mergeMessages,
+  replaceMessage,
+  toLastMessagePreview,
+  upsertGroup,
+  withReaction,
+  type ChatMessage,
+  type Match,
+} from "@/lib/chat-state";
+import type {
+  ChatErrorPayload,
+  ChatGroup,
+  ConversationPreview,
+  GroupLeft,
+  GroupListAck,
+  JoinRoomAck,
+  PinnedMessage,
+  PinsUpdate,
+  PresenceUpdate,
+  ReactionUpdate,
+  ReadSnapshot,
+  ReadState,
+  SocketChatMessage,
+  StudySession,
+  SyncMissedAck,
+  SyncMissedRequest,
+  TypingUpdate,
+} from "@/types/socket";
+
+type Setter<T> = Dispatch<SetStateAction<T>>;
+
+// What the chat page shares with its socket listeners: refs for the values
+// handlers read when an event arrives, and the state setters they update
+interface ChatRoomEventsOptions {
+  socket: Socket | null;
+  currentUserRef: MutableRefObject<User | null>;
+  currentRoomIdRef: MutableRefObject<string | null>;
+  chatHistoryRef: MutableRefObject<ChatMessage[]>;
+  setChatHistory: Setter<ChatMessage[]>;
+  setChatError: Setter<string | null>;
+  setMatches: Setter<Match[]>;
+  setGroups: Setter<ChatGroup[]>;
+  setPreviews: Setter<Record<string, ConversationPreview>>;
+  setSelectedChatId: Setter<string | null>;
+}
+
+// Socket.IO listeners for the chat page (the connection is shared via
+// ChatSocketProvider): new, edited and deleted messages, reactions, presence,
+// typing, read positions, pins, study sessions, groups and sidebar previews,
+// plus rejoining and replaying the open room after a reconnect. Keeps the
+// state only these events change, and updates the page's through its setters.
+export function useChatRoomEvents({
+  socket,
+  currentUserRef,
+  currentRoomIdRef,
+  chatHistoryRef,
+  setChatHistory,
+  setChatError,
+  setMatches,
+  setGroups,
+  setPreviews,
+  setSelectedChatId,
+}: ChatRoomEventsOptions) {
+  const [presence, setPresence] = useState<Record<string, PresenceUpdate>>({}); // Online status per matched user ID
+  const [typingByRoom, setTypingByRoom] = useState<Record<string, string[]>>(
+    {}
+  ); // IDs of users currently typing, per room
+  const [readStates, setReadStates] = useState<
+    Record<string, Record<string, string>>
+  >({}); // Server read positions: roomId -> userId -> lastReadAt
+  const [unreadSince, setUnreadSince] = useState<string | null | undefined>(
+    undefined
+  ); // Our read position when the current room was opened (undefined = not loaded)
+  const [pinsByRoom, setPinsByRoom] = useState<Record<string, PinnedMessage[]>>(
+    {}
+  ); // Pinned messages per room ID, newest first
+
+  // Joining another room: its read position and typing members are sent
+  // again (typing ones only from now on - earlier ones went stale)
+  const resetRoomEvents = useCallback((roomId: string) => {
+    setUnreadSince(undefined); // Wait for the room's read:snapshot
+    setTypingByRoom((prev) => ({ ...prev, [roomId]: [] }));
+  }, []);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    // Define the listener function separately
+    const receiveMessageHandler = (msg: SocketChatMessage) => {
+      const userId = currentUserRef.current?.id;
+      const activeRoomId = currentRoomIdRef.current; // Use the ref
+
+      if (msg.roomId === activeRoomId) {
+        // Message for the currently active room. May also be our own,
+        // sent from another tab - skip it if we already have that ID.
+        setChatHistory((prev) =>
+          mergeMessages(prev, [fromSocketMessage(msg, userId)])
+        );
+      } else {
+        // The sidebar badge is updated by the server's unread:update
+        console.log(`Received message for inactive room: ${msg.roomId}`);
+      }
+    };
+
+    // Server refused an action (e.g. joining a room we're not matched in)
+    const chatErrorHandler = (err: ChatErrorPayload) => {
+      console.warn(`Chat error (${err.code}):`, err.message);
+      if (err.roomId && err.roomId === currentRoomIdRef.current) {
+        setChatError(err.message);
+        if (err.code === "ROOM_FORBIDDEN") {
+          setChatHistory([]); // Don't show history for a room we can't join
+        }
+      }
+    };
+
+    // The match behind a room was removed - drop it from the sidebar
+    const roomClosedHandler = ({ roomId }: { roomId: string }) => {
+      const userId = currentUserRef.current?.id;
+      const otherUserId = roomId.split("--").find((id) => id !== userId);
+      console.log(`Room closed: ${roomId}`);
+      setMatches((prev) => prev.filter((m) => m.id !== otherUserId));
+      if (roomId === currentRoomIdRef.current) {
+        setSelectedChatId(null);
+        setChatHistory([]);
+      }
+    };
+
+    // Online status of our matches: full list on connect, then changes
+    const presenceSnapshotHandler = (list: PresenceUpdate[]) => {
+      setPresence(Object.fromEntries(list.map((p) => [p.userId, p])));
+    };
+    const presenceUpdateHandler = (update: PresenceUpdate) => {
+      setPresence((prev) => ({ ...prev, [update.userId]: update }));
+    };
+
+    // Another member started/stopped typing
+    const typingUpdateHandler = ({
+      roomId,
+      userId,
+      isTyping,
+    }: TypingUpdate) => {
+      setTypingByRoom((prev) => {
+        const others = (prev[roomId] || []).filter((id) => id !== userId);
+        return {
+          ...prev,
+          [roomId]: isTyping ? [...others, userId] : others,
+        };
+      });
+    };
+
+    // Read positions of both members, sent after joining a room
+    const readSnapshotHandler = ({ roomId, reads }: ReadSnapshot) => {
+      setReadStates((prev) => ({
+        ...prev,
+        [roomId]: Object.fromEntries(
+          reads.map((r) => [r.userId, r.lastReadAt])
+        ),
+      }));
+      if (roomId === currentRoomIdRef.current) {
+        // Freeze the separator at where we were when opening the room
+        const userId = currentUserRef.current?.id;
+        const mine = reads.find((r) => r.userId === userId);
+        setUnreadSince(mine?.lastReadAt ?? null);
+      }
+    };
+
+    // Someone (the other member or our other tab) read further
+    const readUpdateHandler = (state: ReadState) => {
+      setReadStates((prev) => ({
+        ...prev,
+        [state.roomId]: {
+          ...prev[state.roomId],
+          [state.userId]: state.lastReadAt,
+        },
+      }));
+    };
+
+    // A member pinned or unpinned a message, or a pinned one changed
+    const pinsUpdateHandler = ({ roomId, pins }: PinsUpdate) => {
+      setPinsByRoom((prev) => ({ ...prev, [roomId]: pins }));
+    };
+
+    // A study session was answered or replaced by another proposal
+    const sessionUpdateHandler = (session: StudySession) => {
+      setChatHistory((prev) =>
+        prev.map((m) => (m.session?.id === session.id ? { ...m, session } : m))
+      );
+    };
+
+    // A member edited or deleted one of their messages
+    const messageChangedHandler = (msg: SocketChatMessage) => {
+      const userId = currentUserRef.current?.id;
+      setChatHistory((prev) =>
+        replaceMessage(prev, fromSocketMessage(msg, userId))
+      );
+    };
+
+    // Someone (incl. us) added, changed or removed a reaction
+    const reactionUpdateHandler = ({
+      messageId,
+      userId,
+      emoji,
+    }: ReactionUpdate) => {
+      setChatHistory((prev) =>
+        prev.map((m) =>
+          m.id === messageId ? withReaction(m, userId, emoji) : m
+        )
+      );
+    };
+
+    // Attach the listeners
+    socket.on("receiveMessage", receiveMessageHandler);
+    socket.on("reaction:update", reactionUpdateHandler);
+    socket.on("message:edited", messageChangedHandler);
+    socket.on("message:deleted", messageChangedHandler);
+    socket.on("chatError", chatErrorHandler);
+    socket.on("roomClosed", roomClosedHandler);
+    socket.on("presence:snapshot", presenceSnapshotHandler);
+    socket.on("presence:update", presenceUpdateHandler);
+    socket.on("typing:update", typingUpdateHandler);
+    socket.on("read:snapshot", readSnapshotHandler);
+    socket.on("read:update", readUpdateHandler);
+    socket.on("pins:update", pinsUpdateHandler);
+    socket.on("session:update", sessionUpdateHandler);
+
+    // Snapshots are pushed on connect, which may predate this page - ask again
+    const requestPresence = () => socket.emit("presence:get");
+
+    // Fetch the messages of a room after the given one, a page at a time
+    // until there's no gap left
+    const replayMissed = (roomId: string, lastMessageId: string | null) => {
+      const request: SyncMissedRequest = {
+        rooms: [{ roomId, lastMessageId }],
+      };
+      socket.emit("sync:missed", request, (ack: SyncMissedAck) => {
+        if (!ack.ok) {
+          console.error(`Replay failed (${ack.code}):`, ack.message);
+          setChatError(ack.message);
+          return;
+        }
+        console.log(`Replayed ${ack.messages.length} missed messages.`);
+        const userId = currentUserRef.current?.id;
+        setChatHistory((prev) =>
+          mergeMessages(
+            prev,
+            ack.messages.map((m) => fromSocketMessage(m, userId))
+          )
+        );
+        const last = ack.messages[ack.messages.length - 1];
+        if (
+          ack.hasMore.includes(roomId) &&
+          last &&
+          currentRoomIdRef.current === roomId
+        ) {
+          replayMissed(roomId, last.id);
+        }
+      });
+    };
+
+    // After a reconnect: rejoin the open room (server-side rooms don't survive
+    // a disconnect), then fetch every message newer than the last one we have
+    const resyncCurrentRoom = () => {
+      const roomId = currentRoomIdRef.current;
+      if (!roomId) return; // First connect - the join effect handles it
+      console.log(`Reconnected, resyncing room ${roomId}`);
+      socket.emit("joinRoom", roomId, (joinAck: JoinRoomAck) => {
+        if (!joinAck.ok) return; // chatError already reported it
+        const lastStored = [...chatHistoryRef.current]
+          .reverse()
+          .find((m) => m.roomId === roomId && m.created_at);
+        replayMissed(roomId, lastStored?.id ?? null);
+      });
+    };
+
+    // Groups we're in, then kept current by group:update/group:left
+    const requestGroups = () => {
+      socket.emit("group:list", (ack: GroupListAck) => {
+        if (!ack.ok) {
+          console.error(`Loading groups failed (${ack.code}):`, ack.message);
+          return;
+        }
+        setGroups(ack.groups);
+      });
+    };
+
+    // A group we're in was created, renamed or got new members
+    const groupUpdateHandler = (group: ChatGroup) => {
+      setGroups((prev) => upsertGroup(prev, group));
+    };
+
+    // We left a group (maybe in another tab)
+    const groupLeftHandler = ({ groupId, roomId }: GroupLeft) => {
+      setGroups((prev) => prev.filter((g) => g.id !== groupId));
+      if (roomId === currentRoomIdRef.current) {
+        setSelectedChatId(null);
+        setChatHistory([]);
+      }
+    };
+
+    socket.on("group:update", groupUpdateHandler);
+    socket.on("group:left", groupLeftHandler);
+
+    // A message was sent, edited or deleted in one of our conversations.
+    // Only the newest message is shown, so edits of older ones are ignored.
+    const conversationMessageHandler = (msg: SocketChatMessage) => {
+      setPreviews((prev) => {
+        const current = prev[msg.roomId];
+        const last = current?.lastMessage;
+        if (
+          last &&
+          last.id !== msg.id &&
+          new Date(last.createdAt) > new Date(msg.createdAt)
+        ) {
+          return prev;
+        }
+        return {
+          ...prev,
+          [msg.roomId]: {
+            roomId: msg.roomId,
+            lastMessage: toLastMessagePreview(msg),
+            unreadCount: current?.unreadCount ?? 0, // Live counts come from unread:update
+          },
+        };
+      });
+    };
+    socket.on("conversation:message", conversationMessageHandler);
+
+    const connectHandler = () => {
+      requestPresence();
+      requestGroups();
+      resyncCurrentRoom();
+    };
+    socket.on("connect", connectHandler);
+    if (socket.connected) {
+      requestPresence();
+      requestGroups();
+    }
+
+    return () => {
+      socket.off("receiveMessage", receiveMessageHandler); // Remove specific listener
+      socket.off("message:edited", messageChangedHandler);
+      socket.off("message:deleted", messageChangedHandler);
+      socket.off("reaction:update", reactionUpdateHandler);
+      socket.off("chatError", chatErrorHandler);
+      socket.off("roomClosed", roomClosedHandler);
+      socket.off("presence:snapshot", presenceSnapshotHandler);
+      socket.off("presence:update", presenceUpdateHandler);
+      socket.off("typing:update", typingUpdateHandler);
+      socket.off("read:snapshot", readSnapshotHandler);
+      socket.off("read:update", readUpdateHandler);
+      socket.off("pins:update", pinsUpdateHandler);
+      socket.off("session:update", sessionUpdateHandler);
+      socket.off("group:update", groupUpdateHandler);
+      socket.off("group:left", groupLeftHandler);
+      socket.off("conversation:message", conversationMessageHandler);
+      socket.off("connect", connectHandler);
+    };
+  }, [
+    socket,
+    currentUserRef,
+    currentRoomIdRef,
+    chatHistoryRef,
+    setChatHistory,
+    setChatError,
+    setMatches,
+    setGroups,
+    setPreviews,
+    setSelectedChatId,
+  ]);
+
+  return {
+    presence,
+    typingByRoom,
+    readStates,
+    unreadSince,
+    pinsByRoom,
+    resetRoomEvents,
+  };
+}
@@ -0,0 +1,199 @@
+"use client";
+
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type Dispatch,
+  type SetStateAction,
+} from "react";
+import type { Socket } from "socket.io-client";
+import {
+  SEND_ACK_TIMEOUT_MS,
+  fromSocketMessage,
+  mergeMessages,
+  type ChatMessage,
+} from "@/lib/chat-state";
+import {
+  getOutboxItems,
+  putOutboxItem,
+  removeOutboxItem,
+  type OutboxItem,
+} from "@/lib/outbox";
+import type { SendMessageAck } from "@/types/socket";
+
+// When the server rate-limits the outbox, try the queue again after this long
+const OUTBOX_RATE_LIMIT_RETRY_MS = 3000;
+
+interface OutboxOptions {
+  socket: Socket | null;
+  isConnected: boolean;
+  userId: string | undefined; // Whose queue to load
+  // Stored messages replace their queued version in the history
+  setChatHistory: Dispatch<SetStateAction<ChatMessage[]>>;
+}
+
+// The chat page's outbox: new messages are queued (in memory and
+// IndexedDB) and sent in order while connected, so messages typed offline go
+// out once the connection is back and a failed one can be resent or dropped
+export function useOutbox({
+  socket,
+  isConnected,
+  userId,
+  setChatHistory,
+}: OutboxOptions) {
+  // Messages waiting to be sent (mirrors IndexedDB). The ref is updated
+  // synchronously so the flush loop always sees the latest queue.
+  const [outbox, setOutbox] = useState<OutboxItem[]>([]);
+  const [isOutboxLoaded, setIsOutboxLoaded] = useState(false);
+  const outboxRef = useRef<OutboxItem[]>([]);
+  const isFlushingRef = useRef(false);
+  const [outboxRetryTick, setOutboxRetryTick] = useState(0); // Bumped to retry after a rate limit
+  const updateOutbox = useCallback(
+    (update: (prev: OutboxItem[]) => OutboxItem[]) => {
+      outboxRef.current = update(outboxRef.current);
+      setOutbox(outboxRef.current);
+    },
+    []
+  );
+
+  // Send queued messages one at a time, oldest first. Stops at the first
+  // missing ack (connection trouble) and resumes on the next connect, or at a
+  // rate limit and resumes shortly after.
+  const flushOutbox = useCallback(async () => {
+    if (!socket || isFlushingRef.current) return;
+    isFlushingRef.current = true;
+    try {
+      while (socket.connected) {
+        const next = outboxRef.current.find((i) => i.status === "pending");
+        if (!next) break;
+
+        let ack: SendMessageAck;
+        try {
+          ack = await socket
+            .timeout(SEND_ACK_TIMEOUT_MS)
+            .emitWithAck("sendMessage", {
+              text: next.text,
+              roomId: next.roomId,
+              clientId: next.clientId,
+              replyToId: next.replyTo?.id,
+              attachment: next.attachment,
+              // senderId is not sent - the server uses the authenticated user
+            });
+        } catch (err) {
+          console.warn("No acknowledgement, keeping message queued:", err);
+          break;
+        }
+
+        if (ack.ok) {
+          // Swap the queued message for the stored one (real ID and timestamp)
+          updateOutbox((prev) =>
+            prev.filter((i) => i.clientId !== next.clientId)
+          );
+          removeOutboxItem(next.clientId).catch((err) =>
+            console.error("Failed to remove outbox item:", err)
+          );
+          const stored = fromSocketMessage(ack.message, next.userId);
+          setChatHistory((prev) => mergeMessages(prev, [stored]));
+        } else if (ack.code === "RATE_LIMITED") {
+          // Still queued - the server will take it in a moment
+          setTimeout(
+            () => setOutboxRetryTick((tick) => tick + 1),
+            OUTBOX_RATE_LIMIT_RETRY_MS
+          );
+          break;
+        } else {
+          console.error(`Error saving message (${ack.code}):`, ack.message);
+          const failed: OutboxItem = {
+            ...next,
+            status: "failed",
+            error: ack.message,
+          };
+          updateOutbox((prev) =>
+            prev.map((i) => (i.clientId === next.clientId ? failed : i))
+          );
+          putOutboxItem(failed).catch((err) =>
+            console.error("Failed to update outbox item:", err)
+          );
+        }
+      }
+    } finally {
+      isFlushingRef.current = false;
+    }
+  }, [socket, updateOutbox, setChatHistory]);
+
+  // Load messages queued in earlier sessions (e.g. typed offline, then reloaded)
+  useEffect(() => {
+    updateOutbox(() => []);
+    setIsOutboxLoaded(false);
+    if (!userId) return;
+    getOutboxItems(userId)
+      .then((items) => {
+        // Keep anything queued in this session before the load finished
+        updateOutbox((prev) => [
+          ...items.filter((i) => !prev.some((p) => p.clientId === i.clientId)),
+          ...prev,
+        ]);
+      })
+      .catch((err) => console.error("Failed to load outbox:", err))
+      .finally(() => setIsOutboxLoaded(true));
+  }, [userId, updateOutbox]);
+
+  // Retry queued messages whenever the connection (re)opens, or after the
+  // server asked us to slow down
+  useEffect(() => {
+    if (isConnected && isOutboxLoaded) flushOutbox();
+  }, [isConnected, isOutboxLoaded, flushOutbox, outboxRetryTick]);
+
+  // Queue a new message; it's sent right away when connected, otherwise as
+  // soon as the connection comes back
+  const enqueue = useCallback(
+    async (item: OutboxItem) => {
+      // Show it right away with a pending status
+      updateOutbox((prev) => [...prev, item]);
+      try {
+        await putOutboxItem(item);
+      } catch (err) {
+        // Still queued in memory, just won't survive a reload
+        console.error("Failed to persist outbox item:", err);
+      }
+      flushOutbox();
+    },
+    [flushOutbox, updateOutbox]
+  );
+
+  // Try a failed message again
+  const resend = useCallback(
+    async (clientId: string) => {
+      const item = outboxRef.current.find((i) => i.clientId === clientId);
+      if (!item) return;
+      const retried: OutboxItem = {
+        ...item,
+        status: "pending",
+        error: undefined,
+      };
+      updateOutbox((prev) =>
+        prev.map((i) => (i.clientId === clientId ? retried : i))
+      );
+      await putOutboxItem(retried).catch((err) =>
+        console.error("Failed to update outbox item:", err)
+      );
+      flushOutbox();
+    },
+    [flushOutbox, updateOutbox]
+  );
+
+  // Drop a queued message without sending it
+  const cancel = useCallback(
+    async (clientId: string) => {
+      updateOutbox((prev) => prev.filter((i) => i.clientId !== clientId));
+      await removeOutboxItem(clientId).catch((err) =>
+        console.error("Failed to remove outbox item:", err)
+      );
+    },
+    [updateOutbox]
+  );
+
+  return { outbox, enqueue, resend, cancel };
+}
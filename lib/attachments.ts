@@ -0,0 +1,135 @@
+// lib/attachments.ts
+// Chat attachments: files are uploaded into the room's folder of the private
+// "chat-attachments" bucket and only reachable through short-lived signed URLs.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ChatAttachment } from "@/types/socket";
+
+const ATTACHMENT_BUCKET = "chat-attachments";
+
+// Limits must match server/attachments.js and lib/create_chat_attachments_bucket.sql
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const ALLOWED_ATTACHMENT_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-powerpoint",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+];
+
+// Signed URLs stay valid this long (seconds)
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export const isImageAttachment = (attachment: ChatAttachment) =>
+  attachment.mimeType.startsWith("image/");
+
+/**
+ * Formats a byte count for display ("820 KB", "2.4 MB").
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Checks a picked file against the size and type limits.
+ * @returns An error message, or null if the file can be sent.
+ */
+export function checkAttachmentFile(file: File): string | null {
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return "Only images, PDFs, text and Office documents can be sent.";
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `Files can be at most ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`;
+  }
+  return null;
+}
+
+// Reads an image's dimensions so the chat can reserve its space
+async function readImageSize(
+  file: File
+): Promise<{ width: number; height: number } | null> {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch {
+    return null; // Not decodable here (e.g. some GIFs) - shown without a size
+  }
+}
+
+/**
+ * Uploads a file into the user's folder in the room's folder. Storage
+ * policies only allow this for members of the room, into their own folder;
+ * the server only accepts files the sender uploaded.
+ * @returns The attachment to send with the message.
+ * @throws If the upload fails.
+ */
+export async function uploadAttachment(
+  supabase: SupabaseClient,
+  roomId: string,
+  userId: string,
+  file: File
+): Promise<ChatAttachment> {
+  const safeName = file.name.replace(/[^\w.-]+/g, "_").slice(-100) || "file";
+  const path = `${roomId}/${userId}/${crypto.randomUUID()}-${safeName}`;
+  const { error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+  if (error) {
+    throw new Error(`Upload failed: ${error.message}`);
+  }
+
+  const imageSize = file.type.startsWith("image/")
+    ? await readImageSize(file)
+    : null;
+  return {
+    path,
+    name: file.name,
+    size: file.size,
+    mimeType: file.type,
+    ...imageSize,
+  };
+}
+
+// Signed URLs by path, reused until shortly before they expire so messages
+// scrolling in and out of the virtualized list don't request new ones
+const signedUrlCache = new Map<string, { url: string; expiresAt: number }>();
+
+/**
+ * Returns a signed URL for an attachment. Files other than images are
+ * served as downloads under their original name.
+ * @throws If the user may not read the file or it no longer exists.
+ */
+export async function getAttachmentUrl(
+  supabase: SupabaseClient,
+  attachment: ChatAttachment
+): Promise<string> {
+  const cached = signedUrlCache.get(attachment.path);
+  if (cached && cached.expiresAt > Date.now()) return cached.url;
+
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrl(
+      attachment.path,
+      SIGNED_URL_TTL_SECONDS,
+      isImageAttachment(attachment) ? undefined : { download: attachment.name }
+    );
+  if (error || !data) {
+    throw new Error(`Could not load attachment: ${error?.message}`);
+  }
+  signedUrlCache.set(attachment.path, {
+    url: data.signedUrl,
+    expiresAt: Date.now() + (SIGNED_URL_TTL_SECONDS - 60) * 1000,
+  });
+  return data.signedUrl;
+}
@@ -0,0 +1,199 @@
+// lib/chat-state.ts
+// Client-side chat state shared by the chat page and its components and
+// hooks: the message shape, mapping from socket payloads and history rows,
+// and helpers to keep the loaded history in order.
+
+import {
+  SESSION_COLUMNS,
+  fromSessionRow,
+  type StudySessionRow,
+} from "@/lib/study-sessions";
+import type { OutboxStatus } from "@/lib/outbox";
+import type {
+  ChatAttachment,
+  ChatGroup,
+  LastMessagePreview,
+  MessageQuote,
+  SocketChatMessage,
+  StudySession,
+} from "@/types/socket";
+
+// How long to wait for the server to acknowledge a sent message (or an
+// edit, reaction etc.)
+export const SEND_ACK_TIMEOUT_MS = 10000;
+
+// Define message structure
+export interface ChatMessage {
+  status?: OutboxStatus; // Set while the message is still in the outbox
+  error?: string; // Why a failed outbox message was rejected
+  id: string; // Keep client-side ID for keys, or use DB id
+  text: string;
+  sender: "me" | "other";
+  roomId: string; // Identify which chat the message belongs to
+  timestamp: number; // Keep for sorting/display, or use created_at from DB
+  senderId: string; // Add senderId to map DB data
+  created_at?: string; // Add created_at from DB
+  editedAt?: string | null; // Set once the sender edited the text
+  deletedAt?: string | null; // Set once the sender deleted it (text is empty)
+  reactions?: Record<string, string>; // Emoji per user ID, one reaction each
+  replyTo?: MessageQuote | null; // The message this one replies to
+  attachment?: ChatAttachment | null; // File sent with the message
+  session?: StudySession | null; // Set for study session proposals
+}
+
+// Define match structure
+export interface Match {
+  id: string;
+  name: string;
+  avatar_url?: string | null; // Add avatar_url field
+}
+
+// A chat_messages row as loaded for the history
+export interface ChatMessageRow {
+  id: string;
+  room_id: string;
+  sender_id: string;
+  message_text: string;
+  attachment: ChatAttachment | null;
+  created_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  chat_message_reactions?: { user_id: string; emoji: string }[]; // Embedded
+  reply_to?: {
+    id: string;
+    sender_id: string;
+    message_text: string;
+    deleted_at: string | null;
+  } | null; // Embedded through reply_to_id
+  study_session?: StudySessionRow | null; // Embedded through study_session_id
+}
+
+// Columns loaded for the history, with reactions, the replied-to message and
+// the proposed study session
+export const HISTORY_COLUMNS =
+  "id, room_id, sender_id, message_text, attachment, created_at, edited_at, " +
+  "deleted_at, chat_message_reactions(user_id, emoji), " +
+  "reply_to:reply_to_id(id, sender_id, message_text, deleted_at), " +
+  `study_session:study_session_id(${SESSION_COLUMNS})`;
+
+// Helper to create a consistent room ID between two users
+export const createRoomId = (userId1: string, userId2: string): string => {
+  // Ensure IDs are strings before sorting
+  return [String(userId1), String(userId2)].sort().join("--");
+};
+
+// Group conversations are selected by their room ID ('group:<uuid>'),
+// 1:1 chats by the matched user's ID
+export const isGroupRoomId = (chatId: string): boolean =>
+  chatId.startsWith("group:");
+
+// Helper to get the room ID of a selected conversation
+export const toRoomId = (userId: string, chatId: string): string =>
+  isGroupRoomId(chatId) ? chatId : createRoomId(userId, chatId);
+
+// Helper to add or replace a group in the sidebar list, oldest first
+export const upsertGroup = (
+  groups: ChatGroup[],
+  group: ChatGroup
+): ChatGroup[] =>
+  [...groups.filter((g) => g.id !== group.id), group].sort((a, b) =>
+    a.createdAt.localeCompare(b.createdAt)
+  );
+
+// Helper to map a message broadcast by the server to local chat state
+export const fromSocketMessage = (
+  msg: SocketChatMessage,
+  currentUserId: string | undefined
+): ChatMessage => ({
+  id: msg.id, // Server-assigned DB ID
+  text: msg.text,
+  attachment: msg.attachment,
+  sender: msg.senderId === currentUserId ? "me" : "other",
+  roomId: msg.roomId,
+  timestamp: new Date(msg.createdAt).getTime(),
+  senderId: msg.senderId,
+  created_at: msg.createdAt,
+  editedAt: msg.editedAt,
+  deletedAt: msg.deletedAt,
+  replyTo: msg.replyTo,
+  session: msg.session,
+});
+
+// Helper to map a stored chat_messages row to local chat state
+export const fromDbMessage = (
+  row: ChatMessageRow,
+  currentUserId: string | undefined
+): ChatMessage => ({
+  id: row.id, // Use DB ID
+  text: row.message_text,
+  attachment: row.attachment,
+  sender: row.sender_id === currentUserId ? "me" : "other", // Determine sender based on currentUserId
+  roomId: row.room_id,
+  timestamp: new Date(row.created_at).getTime(), // Convert DB timestamp
+  senderId: row.sender_id,
+  created_at: row.created_at,
+  editedAt: row.edited_at,
+  deletedAt: row.deleted_at,
+  reactions: Object.fromEntries(
+    (row.chat_message_reactions || []).map((r) => [r.user_id, r.emoji])
+  ),
+  replyTo: row.reply_to
+    ? {
+        id: row.reply_to.id,
+        senderId: row.reply_to.sender_id,
+        text: row.reply_to.message_text,
+        deletedAt: row.reply_to.deleted_at,
+      }
+    : null,
+  session: row.study_session ? fromSessionRow(row.study_session) : null,
+});
+
+// Helper to add messages to history without duplicates, keeping time order
+export const mergeMessages = (
+  existing: ChatMessage[],
+  incoming: ChatMessage[]
+): ChatMessage[] => {
+  const knownIds = new Set(existing.map((m) => m.id));
+  const added = incoming.filter((m) => !knownIds.has(m.id));
+  if (added.length === 0) return existing;
+  return [...existing, ...added].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// Helper to swap in a new version of a message (after an edit or delete).
+// Socket payloads don't carry reactions, so the known ones are kept.
+export const replaceMessage = (
+  existing: ChatMessage[],
+  updated: ChatMessage
+): ChatMessage[] =>
+  existing.map((m) =>
+    m.id === updated.id
+      ? { ...updated, reactions: updated.reactions ?? m.reactions }
+      : m
+  );
+
+// Helper to apply a reaction:update to a message
+export const withReaction = (
+  msg: ChatMessage,
+  userId: string,
+  emoji: string | null
+): ChatMessage => {
+  const reactions = { ...msg.reactions };
+  if (emoji) {
+    reactions[userId] = emoji;
+  } else {
+    delete reactions[userId];
+  }
+  return { ...msg, reactions };
+};
+
+// Helper to turn a socket message into a sidebar preview
+export const toLastMessagePreview = (
+  msg: SocketChatMessage
+): LastMessagePreview => ({
+  id: msg.id,
+  text: msg.text,
+  senderId: msg.senderId,
+  createdAt: msg.createdAt,
+  hasAttachment: !!msg.attachment,
+  deleted: !!msg.deletedAt,
+});
@@ -0,0 +1,148 @@
+// lib/conversation-export.ts
+// Conversation exports: the full history of a room as a Markdown, JSON or
+// plain text file, built by app/api/conversations/export/route.ts.
+
+export type ExportFormat = "markdown" | "json" | "text";
+
+export const EXPORT_FORMATS: {
+  value: ExportFormat;
+  label: string;
+  extension: string;
+  contentType: string;
+}[] = [
+  {
+    value: "markdown",
+    label: "Markdown (.md)",
+    extension: "md",
+    contentType: "text/markdown; charset=utf-8",
+  },
+  {
+    value: "json",
+    label: "JSON (.json)",
+    extension: "json",
+    contentType: "application/json; charset=utf-8",
+  },
+  {
+    value: "text",
+    label: "Plain text (.txt)",
+    extension: "txt",
+    contentType: "text/plain; charset=utf-8",
+  },
+];
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  EXPORT_FORMATS.some((f) => f.value === value);
+
+export interface ExportedMessage {
+  id: string;
+  senderId: string;
+  senderName: string;
+  text: string; // Empty for deleted messages
+  createdAt: string; // ISO
+  editedAt: string | null;
+  deleted: boolean;
+  attachment: { name: string; mimeType: string; size: number } | null;
+  replyToId: string | null;
+}
+
+export interface ConversationExport {
+  roomId: string;
+  title: string; // "Chat with Anna" or the group name
+  exportedAt: string; // ISO
+  timeZone: string; // Used for the times in Markdown and text
+  participants: { userId: string; name: string }[];
+  messages: ExportedMessage[]; // Oldest first
+}
+
+// "2026-10-19" and "14:02" in the export's time zone
+function dateAndTime(iso: string, timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(new Date(iso))
+      .map((p) => [p.type, p.value])
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+  };
+}
+
+// What a message says, with deletions, attachments and replies spelled out,
+// one part per line (or paragraph, for Markdown)
+function describeMessage(
+  message: ExportedMessage,
+  byId: Map<string, ExportedMessage>,
+  separator = "\n"
+): string {
+  if (message.deleted) return "(message deleted)";
+  const lines: string[] = [];
+  const repliedTo = message.replyToId ? byId.get(message.replyToId) : null;
+  if (repliedTo) lines.push(`(in reply to ${repliedTo.senderName})`);
+  if (message.text) lines.push(message.text);
+  if (message.attachment)
+    lines.push(`[Attachment: ${message.attachment.name}]`);
+  if (message.editedAt) lines.push("(edited)");
+  return lines.join(separator);
+}
+
+function toMarkdown(data: ConversationExport): string {
+  const byId = new Map(data.messages.map((m) => [m.id, m]));
+  const exported = dateAndTime(data.exportedAt, data.timeZone);
+  const out = [
+    `# ${data.title}`,
+    "",
+    `Exported ${exported.date} ${exported.time} (${data.timeZone}) · ` +
+      `${data.messages.length} messages · ` +
+      data.participants.map((p) => p.name).join(", "),
+  ];
+  let lastDate = "";
+  for (const message of data.messages) {
+    const { date, time } = dateAndTime(message.createdAt, data.timeZone);
+    if (date !== lastDate) {
+      out.push("", `## ${date}`);
+      lastDate = date;
+    }
+    // Message text is already Markdown (the chat renders a subset of it)
+    out.push("", `**${message.senderName}** · ${time}`, "");
+    out.push(describeMessage(message, byId, "\n\n"));
+  }
+  return out.join("\n") + "\n";
+}
+
+function toText(data: ConversationExport): string {
+  const byId = new Map(data.messages.map((m) => [m.id, m]));
+  const exported = dateAndTime(data.exportedAt, data.timeZone);
+  const out = [
+    data.title,
+    `Exported ${exported.date} ${exported.time} (${data.timeZone})`,
+    `Participants: ${data.participants.map((p) => p.name).join(", ")}`,
+    "",
+  ];
+  for (const message of data.messages) {
+    const { date, time } = dateAndTime(message.createdAt, data.timeZone);
+    // Continuation lines are indented under the first one
+    const body = describeMessage(message, byId).replace(/\n/g, "\n    ");
+    out.push(`[${date} ${time}] ${message.senderName}: ${body}`);
+  }
+  return out.join("\n") + "\n";
+}
+
+/**
+ * Renders a conversation in the given format.
+ */
+export function formatConversationExport(
+  data: ConversationExport,
+  format: ExportFormat
+): string {
+  if (format === "json") return JSON.stringify(data, null, 2) + "\n";
+  if (format === "markdown") return toMarkdown(data);
+  return toText(data);
+}
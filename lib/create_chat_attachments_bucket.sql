@@ -0,0 +1,66 @@
+-- chat-attachments storage bucket: files sent in chats, stored as '<room_id>/<uploader user_id>/<uuid>-<file name>'.
+-- The bucket is private; the room's members read files through signed URLs.
+-- Limits must match lib/attachments.ts and server/attachments.js.
+-- Run after lib/create_chat_groups_tables.sql (the policies use public.is_chat_group_member).
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-attachments',
+  'chat-attachments',
+  false,
+  10485760, -- 10 MB
+  ARRAY[
+    'image/jpeg',
+    'image/png',
+    'image/gif',
+    'image/webp',
+    'application/pdf',
+    'text/plain',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ]
+);
+
+-- is_chat_room_member: whether the current user is a member of an existing match for a room ID
+-- ('user1--user2') or of the group behind it ('group:<uuid>', see lib/create_chat_groups_tables.sql).
+-- SECURITY DEFINER so storage policies can check matches regardless of its RLS.
+CREATE OR REPLACE FUNCTION public.is_chat_room_member(p_room_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.matches m
+    WHERE auth.uid() IN (m.student1_user_id, m.student2_user_id)
+      AND p_room_id IN (
+        m.student1_user_id::text || '--' || m.student2_user_id::text,
+        m.student2_user_id::text || '--' || m.student1_user_id::text
+      )
+  ) OR public.is_chat_group_member(p_room_id);
+$$;
+
+-- Policy: Room members can upload into their own folder in their room's folder
+-- (the server only lets a message use a file its sender uploaded)
+CREATE POLICY "Room members can upload chat attachments" ON storage.objects
+FOR INSERT TO authenticated
+WITH CHECK (
+  bucket_id = 'chat-attachments'
+  AND public.is_chat_room_member((storage.foldername(name))[1])
+  AND (storage.foldername(name))[2] = auth.uid()::text
+);
+
+-- Policy: Room members can read (and create signed URLs for) their room's files
+CREATE POLICY "Room members can read chat attachments" ON storage.objects
+FOR SELECT TO authenticated
+USING (
+  bucket_id = 'chat-attachments'
+  AND public.is_chat_room_member((storage.foldername(name))[1])
+);
+
+-- Files are deleted only by the Socket.IO server (server/attachments.js) when their message is deleted.
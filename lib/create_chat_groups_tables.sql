@@ -0,0 +1,58 @@
+-- chat_groups and chat_group_members: group conversations with more than two members.
+-- A group's chat room ID is 'group:<chat_groups.id>' (1:1 rooms stay 'user1--user2', derived
+-- from matches). Groups are created and changed only by the Socket.IO server (server/groups.js)
+-- using the service role, which checks that invitees are the inviter's matches.
+CREATE TABLE public.chat_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE TABLE public.chat_group_members (
+  group_id UUID NOT NULL REFERENCES public.chat_groups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  added_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  joined_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  PRIMARY KEY (group_id, user_id)
+);
+
+-- Index for listing a user's groups
+CREATE INDEX idx_chat_group_members_user_id ON public.chat_group_members (user_id);
+
+-- is_chat_group_member: whether the current user is a member of the group behind a room ID
+-- ('group:<uuid>'). SECURITY DEFINER so policies (incl. the ones on chat_group_members itself)
+-- can check membership without recursing into RLS.
+CREATE OR REPLACE FUNCTION public.is_chat_group_member(p_room_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.chat_group_members gm
+    WHERE gm.user_id = auth.uid()
+      AND 'group:' || gm.group_id::text = p_room_id
+  );
+$$;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.chat_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_group_members ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Members can see their groups
+CREATE POLICY "Allow select for group members" ON public.chat_groups
+FOR SELECT USING (
+  public.is_chat_group_member('group:' || id::text)
+);
+
+-- Policy: Members can see who else is in their groups
+CREATE POLICY "Allow select for group members" ON public.chat_group_members
+FOR SELECT USING (
+  public.is_chat_group_member('group:' || group_id::text)
+);
+
+GRANT SELECT ON TABLE public.chat_groups TO authenticated;
+GRANT SELECT ON TABLE public.chat_group_members TO authenticated;
@@ -0,0 +1,25 @@
+-- chat_message_reactions table: one emoji reaction per user per message
+-- Run after lib/create_chat_groups_tables.sql (the policies use public.is_chat_group_member).
+CREATE TABLE public.chat_message_reactions (
+  message_id UUID NOT NULL REFERENCES public.chat_messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  room_id TEXT NOT NULL, -- Copied from the message, used by the RLS policy
+  emoji TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  PRIMARY KEY (message_id, user_id)
+);
+
+COMMENT ON TABLE public.chat_message_reactions IS 'Emoji reactions to chat messages; reacting again with the same emoji removes the row.';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.chat_message_reactions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow users to see reactions in rooms they are part of (loaded with the chat history)
+CREATE POLICY "Allow select for room participants" ON public.chat_message_reactions
+FOR SELECT USING (
+  room_id LIKE '%' || auth.uid()::text || '%'
+  OR public.is_chat_group_member(room_id) -- Group rooms, see lib/create_chat_groups_tables.sql
+);
+
+-- Reactions are written only by the Socket.IO server (server/reactions.js) using the service role.
+GRANT SELECT ON TABLE public.chat_message_reactions TO authenticated;
@@ -1,31 +1,42 @@
 -- chat_messages table
+-- Run after lib/create_chat_groups_tables.sql (the policies use public.is_chat_group_member).
 CREATE TABLE public.chat_messages (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   room_id TEXT NOT NULL,
   sender_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
   message_text TEXT NOT NULL,
-  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+  client_id UUID, -- Generated by the sender's outbox; makes retries idempotent
+  reply_to_id UUID REFERENCES public.chat_messages(id) ON DELETE SET NULL, -- Message this one replies to (same room)
+  attachment JSONB, -- File in the chat-attachments bucket: { path, name, size, mimeType, width?, height? }
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  edited_at TIMESTAMPTZ, -- Set when the sender edits the text
+  deleted_at TIMESTAMPTZ, -- Soft delete: set (and message_text cleared) when the sender deletes it
+  -- Words of the text for full-text search. 'simple' (no stemming) because chats mix Polish and English.
+  search_vector TSVECTOR GENERATED ALWAYS AS (to_tsvector('simple', message_text)) STORED
 );
 
--- Index for faster room lookups
-CREATE INDEX idx_chat_messages_room_id_created_at ON public.chat_messages (room_id, created_at DESC);
+-- A retried send (same sender + client_id) must not create a second row
+CREATE UNIQUE INDEX idx_chat_messages_sender_client_id ON public.chat_messages (sender_id, client_id);
+
+-- Index for faster room lookups and history pages (keyset cursor on created_at, id)
+CREATE INDEX idx_chat_messages_room_id_created_at ON public.chat_messages (room_id, created_at DESC, id DESC);
+
+-- Text index for message search (see lib/create_search_chat_messages_function.sql)
+CREATE INDEX idx_chat_messages_search_vector ON public.chat_messages USING GIN (search_vector);
 
 -- Enable Row Level Security (RLS)
 ALTER TABLE public.chat_messages ENABLE ROW LEVEL SECURITY;
 
--- Policy: Allow users to insert messages into rooms they are part of
-CREATE POLICY "Allow insert for room participants" ON public.chat_messages
-FOR INSERT WITH CHECK (
-  auth.uid() = sender_id AND
-  -- Check if the user's ID is part of the room_id string 'user1--user2'
-  room_id LIKE '%' || auth.uid()::text || '%'
-);
+-- Messages are inserted, edited and deleted only by the Socket.IO server (server/messages.js)
+-- using the service role, which checks room membership and the sender itself. Clients get no
+-- INSERT or UPDATE policy or grant.
 
 -- Policy: Allow users to select messages from rooms they are part of
 CREATE POLICY "Allow select for room participants" ON public.chat_messages
 FOR SELECT USING (
-  -- Check if the user's ID is part of the room_id string 'user1--user2'
+  -- Check if the user's ID is part of the room_id string 'user1--user2', or they're in the group
   room_id LIKE '%' || auth.uid()::text || '%'
+  OR public.is_chat_group_member(room_id) -- Group rooms, see lib/create_chat_groups_tables.sql
 );
 
 -- Optional: Allow users to delete their own messages (if needed)
@@ -35,7 +46,7 @@ FOR SELECT USING (
 -- );
 
 -- Grant usage permissions to authenticated users
-GRANT SELECT, INSERT, DELETE ON TABLE public.chat_messages TO authenticated;
+GRANT SELECT, DELETE ON TABLE public.chat_messages TO authenticated;
 GRANT USAGE, SELECT ON SEQUENCE chat_messages_id_seq TO authenticated; -- If using SERIAL id instead of UUID
 
 -- Make sure realtime is enabled for the table if you want to subscribe later
@@ -0,0 +1,26 @@
+-- chat_pinned_messages table: messages pinned to the top of a conversation by any of its members
+-- Run after lib/create_chat_groups_tables.sql (the policies use public.is_chat_group_member).
+CREATE TABLE public.chat_pinned_messages (
+  message_id UUID PRIMARY KEY REFERENCES public.chat_messages(id) ON DELETE CASCADE,
+  room_id TEXT NOT NULL, -- Copied from the message, used by the RLS policy
+  pinned_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  pinned_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Index for loading a room's pins (newest first)
+CREATE INDEX idx_chat_pinned_messages_room_id ON public.chat_pinned_messages (room_id, pinned_at DESC);
+
+COMMENT ON TABLE public.chat_pinned_messages IS 'Pinned messages per room; limited per room by the Socket.IO server, unpinned when the message is deleted.';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.chat_pinned_messages ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow users to see the pins of rooms they are part of
+CREATE POLICY "Allow select for room participants" ON public.chat_pinned_messages
+FOR SELECT USING (
+  room_id LIKE '%' || auth.uid()::text || '%'
+  OR public.is_chat_group_member(room_id) -- Group rooms, see lib/create_chat_groups_tables.sql
+);
+
+-- Pins are written only by the Socket.IO server (server/pins.js) using the service role.
+GRANT SELECT ON TABLE public.chat_pinned_messages TO authenticated;
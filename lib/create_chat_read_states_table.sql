@@ -0,0 +1,26 @@
+-- chat_read_states table: how far each user has read in each room
+-- Run after lib/create_chat_groups_tables.sql (the policies use public.is_chat_group_member).
+CREATE TABLE public.chat_read_states (
+  room_id TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  last_read_message_id UUID REFERENCES public.chat_messages(id) ON DELETE SET NULL,
+  last_read_at TIMESTAMPTZ NOT NULL, -- created_at of the last message the user has seen
+  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  PRIMARY KEY (room_id, user_id)
+);
+
+COMMENT ON TABLE public.chat_read_states IS 'Per-user, per-room read position used for read receipts and unread separators.';
+COMMENT ON COLUMN public.chat_read_states.last_read_at IS 'Timestamp of the newest message the user has seen; only ever moves forward.';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.chat_read_states ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow users to see read states of rooms they are part of (their own and their match's)
+CREATE POLICY "Allow select for room participants" ON public.chat_read_states
+FOR SELECT USING (
+  room_id LIKE '%' || auth.uid()::text || '%'
+  OR public.is_chat_group_member(room_id) -- Group rooms, see lib/create_chat_groups_tables.sql
+);
+
+-- Read states are written only by the Socket.IO server (server/receipts.js) using the service role.
+GRANT SELECT ON TABLE public.chat_read_states TO authenticated;
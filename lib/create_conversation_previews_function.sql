@@ -0,0 +1,66 @@
+-- get_conversation_previews: the chat sidebar in one query. For every conversation of the
+-- calling user (matches as 'user1--user2', sorted like createRoomId, and groups as 'group:<uuid>'),
+-- the newest message and the number of messages other members sent after the user's read position.
+-- Runs as the caller (auth.uid()), so the chat_messages RLS policies still apply.
+CREATE OR REPLACE FUNCTION public.get_conversation_previews()
+RETURNS TABLE (
+  room_id TEXT,
+  last_message_id UUID,
+  last_message_text TEXT,
+  last_message_sender_id UUID,
+  last_message_at TIMESTAMPTZ,
+  last_message_has_attachment BOOLEAN,
+  last_message_deleted BOOLEAN,
+  unread_count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH rooms AS (
+    SELECT CASE
+      WHEN m.student1_user_id::text COLLATE "C" < m.student2_user_id::text COLLATE "C"
+        THEN m.student1_user_id::text || '--' || m.student2_user_id::text
+      ELSE m.student2_user_id::text || '--' || m.student1_user_id::text
+    END AS room_id
+    FROM public.matches m
+    WHERE auth.uid() IN (m.student1_user_id, m.student2_user_id)
+    UNION ALL
+    SELECT 'group:' || gm.group_id::text
+    FROM public.chat_group_members gm
+    WHERE gm.user_id = auth.uid()
+  )
+  SELECT
+    rooms.room_id,
+    last_message.id,
+    last_message.message_text,
+    last_message.sender_id,
+    last_message.created_at,
+    last_message.attachment IS NOT NULL,
+    last_message.deleted_at IS NOT NULL,
+    unread.unread_count
+  FROM rooms
+  -- Uses idx_chat_messages_room_id_created_at: one index probe per room
+  LEFT JOIN LATERAL (
+    SELECT cm.id, cm.message_text, cm.sender_id, cm.created_at, cm.attachment, cm.deleted_at
+    FROM public.chat_messages cm
+    WHERE cm.room_id = rooms.room_id
+    ORDER BY cm.created_at DESC, cm.id DESC
+    LIMIT 1
+  ) last_message ON true
+  LEFT JOIN public.chat_read_states rs
+    ON rs.room_id = rooms.room_id AND rs.user_id = auth.uid()
+  CROSS JOIN LATERAL (
+    SELECT COUNT(*) AS unread_count
+    FROM public.chat_messages cm
+    WHERE cm.room_id = rooms.room_id
+      AND cm.sender_id <> auth.uid()
+      AND cm.deleted_at IS NULL
+      AND cm.created_at > COALESCE(rs.last_read_at, '-infinity'::timestamptz)
+  ) unread
+  ORDER BY last_message.created_at DESC NULLS LAST;
+$$;
+
+COMMENT ON FUNCTION public.get_conversation_previews() IS 'Last message and unread count of each of the current user''s conversations (used by GET /api/conversations).';
+
+REVOKE EXECUTE ON FUNCTION public.get_conversation_previews() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_conversation_previews() TO authenticated;
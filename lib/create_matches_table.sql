@@ -18,4 +18,9 @@ CREATE TABLE matches (
 -- Optional: Add comments
 COMMENT ON TABLE public.matches IS 'Stores match relationships between students based on their user IDs.';
 COMMENT ON COLUMN public.matches.student1_user_id IS 'User ID of the first student in the match.';
-COMMENT ON COLUMN public.matches.student2_user_id IS 'User ID of the second student in the match.';
\ No newline at end of file
+COMMENT ON COLUMN public.matches.student2_user_id IS 'User ID of the second student in the match.';
+
+-- Let the Socket.IO server (server/rooms.js) hear about removed matches so it can close their chat rooms.
+-- REPLICA IDENTITY FULL makes DELETE events include both user IDs, not just the primary key.
+ALTER TABLE public.matches REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.matches;
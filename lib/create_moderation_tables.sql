@@ -0,0 +1,115 @@
+-- Moderation: reports from users, the moderators who handle them, what they did, and suspensions.
+-- Everything here is written only by the Socket.IO server (server/moderation.js) using the service
+-- role, which checks that moderation requests come from a moderator.
+-- Run after lib/create_students_table.sql, lib/create_likes_table.sql and lib/create_matches_table.sql
+-- (suspended accounts are kept from changing them, see the end of this file).
+
+-- moderators table: accounts allowed on the moderation page. Added by hand, e.g.
+--   INSERT INTO public.moderators (user_id) VALUES ('<auth user id>');
+CREATE TABLE public.moderators (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+COMMENT ON TABLE public.moderators IS 'Users who may review reports and take moderation actions.';
+
+-- reports table: a user reporting a message or another user's profile
+CREATE TABLE public.reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE, -- NULL when flagged by the chat filter (server/filter.js)
+  reported_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  message_id UUID REFERENCES public.chat_messages(id) ON DELETE SET NULL, -- Set for message reports
+  room_id TEXT, -- The message's room, for message reports
+  reason TEXT NOT NULL CHECK (reason IN ('harassment', 'spam', 'inappropriate', 'other')),
+  details TEXT NOT NULL DEFAULT '' CHECK (char_length(details) <= 1000),
+  -- The reported content as it was when reported (it may be edited or deleted later):
+  -- { message: { text, attachment, createdAt }, context: [{ senderId, text, createdAt }] }
+  -- for messages, { profile: { name, fieldOfStudy, yearOfStudy, avatarUrl } } for profiles
+  snapshot JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'actioned')),
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  resolved_at TIMESTAMPTZ,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+-- Index for the moderation queue (open reports, oldest first)
+CREATE INDEX idx_reports_status_created_at ON public.reports (status, created_at);
+
+COMMENT ON TABLE public.reports IS 'Reports of harassment, spam etc. against messages or profiles, with a snapshot of the content.';
+
+-- moderation_actions table: every moderator action, kept as an audit log
+CREATE TABLE public.moderation_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id UUID REFERENCES public.reports(id) ON DELETE SET NULL,
+  moderator_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  target_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('dismiss', 'warn', 'remove_content', 'suspend')),
+  note TEXT NOT NULL DEFAULT '' CHECK (char_length(note) <= 1000), -- Shown to the user for warnings
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  acknowledged_at TIMESTAMPTZ -- Warnings only: when the user dismissed it
+);
+
+-- Index for finding a user's unacknowledged warnings when they connect
+CREATE INDEX idx_moderation_actions_target_user_id ON public.moderation_actions (target_user_id, action);
+
+COMMENT ON TABLE public.moderation_actions IS 'Audit log of moderator actions; warnings are shown to the user until acknowledged.';
+
+-- user_suspensions table: suspended accounts can't connect to the chat server, use the chat API
+-- routes or change their profile, likes and matches
+CREATE TABLE public.user_suspensions (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  suspended_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+COMMENT ON TABLE public.user_suspensions IS 'Suspended accounts; checked by the Socket.IO server, the API routes and the policies below.';
+
+-- Enable Row Level Security (RLS). Only the moderators row of the user themselves is readable (so the
+-- dashboard can show the moderation link); reports and actions never leave the server.
+ALTER TABLE public.moderators ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.moderation_actions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_suspensions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow select of own moderator row" ON public.moderators
+FOR SELECT USING (auth.uid() = user_id);
+
+GRANT SELECT ON TABLE public.moderators TO authenticated;
+
+-- is_current_user_suspended: whether the current user's account is suspended. Used by the policies
+-- below and called by the API routes (lib/suspension.ts). SECURITY DEFINER so it can read
+-- user_suspensions, which has no policies; it only ever answers for the caller.
+CREATE OR REPLACE FUNCTION public.is_current_user_suspended()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.user_suspensions s WHERE s.user_id = auth.uid());
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_current_user_suspended() TO authenticated;
+
+-- Suspended accounts can't like, match or edit their profile (or upload files). The policies are
+-- RESTRICTIVE, so they narrow the tables' existing policies instead of granting anything.
+CREATE POLICY "Suspended users can't edit their profile" ON public.students
+AS RESTRICTIVE FOR UPDATE TO authenticated
+USING (NOT public.is_current_user_suspended());
+
+CREATE POLICY "Suspended users can't like" ON public.likes
+AS RESTRICTIVE FOR INSERT TO authenticated
+WITH CHECK (NOT public.is_current_user_suspended());
+
+CREATE POLICY "Suspended users can't remove likes" ON public.likes
+AS RESTRICTIVE FOR DELETE TO authenticated
+USING (NOT public.is_current_user_suspended());
+
+CREATE POLICY "Suspended users can't match" ON public.matches
+AS RESTRICTIVE FOR INSERT TO authenticated
+WITH CHECK (NOT public.is_current_user_suspended());
+
+CREATE POLICY "Suspended users can't upload files" ON storage.objects
+AS RESTRICTIVE FOR INSERT TO authenticated
+WITH CHECK (NOT public.is_current_user_suspended());
@@ -0,0 +1,67 @@
+-- search_chat_messages: full-text search over the messages of every chat room the user belongs to.
+-- Rooms are derived from the user's matches ('user1--user2', sorted like createRoomId) and group
+-- memberships ('group:<uuid>'), so rooms of removed matches, groups the user left and other
+-- users' conversations are never searched.
+-- Every word of the query must appear in the message; the last one may be a prefix (search as you type).
+-- The snippet marks each hit with U+E000 ... U+E001, which the chat page turns into highlights.
+CREATE OR REPLACE FUNCTION public.search_chat_messages(
+  p_user_id UUID,
+  p_query TEXT,
+  p_limit INT DEFAULT 30
+)
+RETURNS TABLE (
+  id UUID,
+  room_id TEXT,
+  sender_id UUID,
+  created_at TIMESTAMPTZ,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH rooms AS (
+    SELECT CASE
+      WHEN m.student1_user_id::text COLLATE "C" < m.student2_user_id::text COLLATE "C"
+        THEN m.student1_user_id::text || '--' || m.student2_user_id::text
+      ELSE m.student2_user_id::text || '--' || m.student1_user_id::text
+    END AS room_id
+    FROM public.matches m
+    WHERE p_user_id IN (m.student1_user_id, m.student2_user_id)
+    UNION ALL
+    SELECT 'group:' || gm.group_id::text
+    FROM public.chat_group_members gm
+    WHERE gm.user_id = p_user_id
+  ),
+  search AS (
+    -- Punctuation is dropped so user input can't produce tsquery syntax
+    SELECT to_tsquery('simple', string_agg(word || ':*', ' & ')) AS query
+    FROM regexp_split_to_table(
+      trim(regexp_replace(lower(p_query), '[^[:alnum:]]+', ' ', 'g')),
+      ' '
+    ) AS word
+    WHERE word <> ''
+  )
+  SELECT
+    cm.id,
+    cm.room_id,
+    cm.sender_id,
+    cm.created_at,
+    ts_headline(
+      'simple',
+      cm.message_text,
+      search.query,
+      'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) || ', MaxWords=24, MinWords=10, MaxFragments=1'
+    ) AS snippet
+  FROM public.chat_messages cm
+  JOIN rooms ON rooms.room_id = cm.room_id
+  CROSS JOIN search
+  WHERE cm.search_vector @@ search.query
+    AND cm.deleted_at IS NULL
+  ORDER BY cm.created_at DESC, cm.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;
+
+COMMENT ON FUNCTION public.search_chat_messages(UUID, TEXT, INT) IS 'Message search across the given user''s chat rooms, newest first (used by the Socket.IO server).';
+
+-- Only the Socket.IO server (service role) calls this; it takes an arbitrary user ID.
+REVOKE EXECUTE ON FUNCTION public.search_chat_messages(UUID, TEXT, INT) FROM PUBLIC, anon, authenticated;
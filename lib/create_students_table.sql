@@ -6,6 +6,7 @@ CREATE TABLE students (
     field_of_study TEXT,
     year_of_study INTEGER NOT NULL CHECK (year_of_study > 0),
     avatar_url TEXT, -- Add this line to store the public URL of the avatar
+    last_seen_at TIMESTAMPTZ, -- Updated by the Socket.IO server when the user connects/disconnects
     created_at TIMESTAMPTZ DEFAULT timezone('utc'::text, now()) NOT NULL
 );
 
@@ -17,4 +18,5 @@ COMMENT ON COLUMN public.students.email IS 'Unique email address of the student.
 COMMENT ON COLUMN public.students.field_of_study IS 'The student''s field of study.';
 COMMENT ON COLUMN public.students.year_of_study IS 'Current year of study (e.g., 1, 2, 3).';
 COMMENT ON COLUMN public.students.avatar_url IS 'Public URL of the student''s avatar image in Supabase Storage.'; -- Add this comment
+COMMENT ON COLUMN public.students.last_seen_at IS 'When the student was last connected to chat (for "last seen").';
 COMMENT ON COLUMN public.students.created_at IS 'Timestamp when the student record was created.';
\ No newline at end of file
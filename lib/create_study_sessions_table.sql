@@ -0,0 +1,41 @@
+-- study_sessions table: study sessions proposed in a chat, and what became of them. Each proposal is
+-- also a chat message (chat_messages.study_session_id) shown as a card with the session's details.
+-- Run after lib/create_chat_messages_table.sql and lib/create_chat_groups_tables.sql (the policies use
+-- public.is_chat_group_member).
+CREATE TABLE public.study_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id TEXT NOT NULL, -- Conversation it was proposed in ('a--b' or 'group:<uuid>')
+  proposed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  starts_at TIMESTAMPTZ NOT NULL,
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes BETWEEN 15 AND 480),
+  location TEXT NOT NULL DEFAULT '' CHECK (char_length(location) <= 200), -- A place or an online meeting link
+  topic TEXT NOT NULL CHECK (char_length(topic) BETWEEN 1 AND 200),
+  -- 'rescheduled' when someone suggested another time (a new proposal with replaces_session_id)
+  status TEXT NOT NULL DEFAULT 'proposed' CHECK (status IN ('proposed', 'accepted', 'declined', 'rescheduled')),
+  replaces_session_id UUID REFERENCES public.study_sessions(id) ON DELETE SET NULL,
+  responded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Index for the upcoming sessions view (accepted sessions by start time)
+CREATE INDEX idx_study_sessions_status_starts_at ON public.study_sessions (status, starts_at);
+
+COMMENT ON TABLE public.study_sessions IS 'Study sessions proposed in chats; accepted ones are listed as upcoming sessions and can be downloaded as .ics files.';
+
+-- The proposal message of each session
+ALTER TABLE public.chat_messages
+  ADD COLUMN study_session_id UUID REFERENCES public.study_sessions(id) ON DELETE SET NULL;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.study_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Allow users to see the sessions of rooms they are part of
+CREATE POLICY "Allow select for room participants" ON public.study_sessions
+FOR SELECT USING (
+  room_id LIKE '%' || auth.uid()::text || '%'
+  OR public.is_chat_group_member(room_id) -- Group rooms, see lib/create_chat_groups_tables.sql
+);
+
+-- Sessions are written only by the Socket.IO server (server/sessions.js) using the service role.
+GRANT SELECT ON TABLE public.study_sessions TO authenticated;
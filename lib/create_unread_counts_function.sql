@@ -0,0 +1,37 @@
+-- get_unread_counts: unread messages per chat room for one user, in a single query.
+-- Rooms are derived from the user's matches ('user1--user2', sorted like createRoomId) and group
+-- memberships ('group:<uuid>'); a message is unread if another member sent it after the user's chat_read_states position
+-- and hasn't deleted it.
+CREATE OR REPLACE FUNCTION public.get_unread_counts(p_user_id UUID)
+RETURNS TABLE (room_id TEXT, unread_count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT rooms.room_id, COUNT(cm.id) AS unread_count
+  FROM (
+    SELECT CASE
+      WHEN m.student1_user_id::text COLLATE "C" < m.student2_user_id::text COLLATE "C"
+        THEN m.student1_user_id::text || '--' || m.student2_user_id::text
+      ELSE m.student2_user_id::text || '--' || m.student1_user_id::text
+    END AS room_id
+    FROM public.matches m
+    WHERE p_user_id IN (m.student1_user_id, m.student2_user_id)
+    UNION ALL
+    SELECT 'group:' || gm.group_id::text
+    FROM public.chat_group_members gm
+    WHERE gm.user_id = p_user_id
+  ) rooms
+  LEFT JOIN public.chat_read_states rs
+    ON rs.room_id = rooms.room_id AND rs.user_id = p_user_id
+  LEFT JOIN public.chat_messages cm
+    ON cm.room_id = rooms.room_id
+    AND cm.sender_id <> p_user_id
+    AND cm.deleted_at IS NULL
+    AND cm.created_at > COALESCE(rs.last_read_at, '-infinity'::timestamptz)
+  GROUP BY rooms.room_id;
+$$;
+
+COMMENT ON FUNCTION public.get_unread_counts(UUID) IS 'Unread message count per room for the given user (used by the Socket.IO server).';
+
+-- Only the Socket.IO server (service role) calls this; it takes an arbitrary user ID.
+REVOKE EXECUTE ON FUNCTION public.get_unread_counts(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,85 @@
+-- user_blocks table: users someone never wants to hear from again. Blocking (server/blocks.js,
+-- via the Socket.IO server and the service role) also removes the pair's match and likes, so the
+-- blocked user only sees the chat disappear, exactly as after an unmatch - they are never told.
+CREATE TABLE public.user_blocks (
+  blocker_user_id UUID NOT NULL REFERENCES public.students(user_id) ON DELETE CASCADE,
+  blocked_user_id UUID NOT NULL REFERENCES public.students(user_id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  PRIMARY KEY (blocker_user_id, blocked_user_id),
+  CHECK (blocker_user_id <> blocked_user_id)
+);
+
+-- Index for checking blocks from the blocked user's side
+CREATE INDEX idx_user_blocks_blocked_user_id ON public.user_blocks (blocked_user_id);
+
+-- Blocked pairs also can't be added to a group together (server/groups.js), so a third person
+-- can't bring them back into one conversation. Groups they were both in before the block stay as
+-- they are: the blocker can leave them, and removing the blocked user would tell them about it.
+COMMENT ON TABLE public.user_blocks IS 'Blocked users: never shown as match candidates to each other, can''t chat 1:1 and can''t be added to a group together.';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.user_blocks ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users see only the blocks they made, never who blocked them
+CREATE POLICY "Allow select for the blocker" ON public.user_blocks
+FOR SELECT USING (auth.uid() = blocker_user_id);
+
+-- Blocks are written only by the Socket.IO server using the service role.
+GRANT SELECT ON TABLE public.user_blocks TO authenticated;
+
+-- get_block_excluded_user_ids: everyone the current user must not be shown as a match candidate,
+-- i.e. users on the other side of a block in either direction. Used by app/dashboard/match/page.tsx;
+-- it returns both directions together, so it doesn't say who blocked whom.
+CREATE OR REPLACE FUNCTION public.get_block_excluded_user_ids()
+RETURNS TABLE (user_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.blocked_user_id FROM public.user_blocks b WHERE b.blocker_user_id = auth.uid()
+  UNION
+  SELECT b.blocker_user_id FROM public.user_blocks b WHERE b.blocked_user_id = auth.uid();
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_block_excluded_user_ids() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_block_excluded_user_ids() TO authenticated;
+
+-- Likes and matches between blocked users are silently dropped (no error, so a blocked user
+-- liking the blocker can't find out), in case a client inserts them directly.
+CREATE OR REPLACE FUNCTION public.skip_blocked_pair()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  user_a UUID;
+  user_b UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'likes' THEN
+    user_a := NEW.liker_user_id;
+    user_b := NEW.liked_user_id;
+  ELSE
+    user_a := NEW.student1_user_id;
+    user_b := NEW.student2_user_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.user_blocks b
+    WHERE (b.blocker_user_id = user_a AND b.blocked_user_id = user_b)
+       OR (b.blocker_user_id = user_b AND b.blocked_user_id = user_a)
+  ) THEN
+    RETURN NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER skip_blocked_likes
+BEFORE INSERT ON public.likes
+FOR EACH ROW EXECUTE FUNCTION public.skip_blocked_pair();
+
+CREATE TRIGGER skip_blocked_matches
+BEFORE INSERT ON public.matches
+FOR EACH ROW EXECUTE FUNCTION public.skip_blocked_pair();
@@ -0,0 +1,85 @@
+// lib/outbox.ts
+// Client-side outbox: chat messages waiting to be sent, persisted in IndexedDB
+// so nothing typed while offline is lost on reload.
+
+import type { ChatAttachment, MessageQuote } from "@/types/socket";
+
+export type OutboxStatus = "pending" | "failed";
+
+export interface OutboxItem {
+  clientId: string; // Idempotency key, stored as chat_messages.client_id
+  userId: string; // Sender - the database is shared by everyone using this browser
+  roomId: string;
+  text: string;
+  replyTo?: MessageQuote; // Quoted message this one replies to
+  attachment?: ChatAttachment; // Already uploaded before queueing
+  createdAt: number; // When it was queued (ms), defines send order
+  status: OutboxStatus;
+  error?: string; // Why the server rejected it (failed items)
+}
+
+const DB_NAME = "wsbfinder-chat";
+const DB_VERSION = 1;
+const STORE_NAME = "outbox";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Opens (and on first use creates) the outbox database
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, {
+          keyPath: "clientId",
+        });
+        store.createIndex("userId", "userId");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Allow a later retry
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Runs a single request in a transaction and resolves with its result
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(
+      db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+    );
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Loads the user's queued messages, oldest first.
+ */
+export async function getOutboxItems(userId: string): Promise<OutboxItem[]> {
+  const items = await withStore<OutboxItem[]>("readonly", (store) =>
+    store.index("userId").getAll(userId)
+  );
+  return items.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Adds or replaces a queued message.
+ */
+export async function putOutboxItem(item: OutboxItem): Promise<void> {
+  await withStore("readwrite", (store) => store.put(item));
+}
+
+/**
+ * Removes a message from the queue (sent or cancelled).
+ */
+export async function removeOutboxItem(clientId: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(clientId));
+}
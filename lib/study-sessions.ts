@@ -0,0 +1,114 @@
+// lib/study-sessions.ts
+// Study sessions proposed in chat: limits for the proposal form, display
+// helpers and the .ics calendar file of an accepted session.
+
+import type { StudySession, StudySessionStatus } from "@/types/socket";
+
+// Limits must match server/sessions.js and lib/create_study_sessions_table.sql
+export const MAX_SESSION_TOPIC_LENGTH = 200;
+export const MAX_SESSION_LOCATION_LENGTH = 200;
+export const SESSION_DURATIONS = [30, 45, 60, 90, 120, 180, 240]; // Minutes
+
+// Columns loaded for a session (server/sessions.js selects the same ones)
+export const SESSION_COLUMNS =
+  "id, room_id, proposed_by, starts_at, duration_minutes, location, topic, " +
+  "status, responded_by, responded_at";
+
+// A study_sessions row as loaded with SESSION_COLUMNS
+export interface StudySessionRow {
+  id: string;
+  room_id: string;
+  proposed_by: string | null;
+  starts_at: string;
+  duration_minutes: number;
+  location: string;
+  topic: string;
+  status: StudySessionStatus;
+  responded_by: string | null;
+  responded_at: string | null;
+}
+
+// Maps a loaded row to the shape the chat server sends
+export const fromSessionRow = (row: StudySessionRow): StudySession => ({
+  id: row.id,
+  roomId: row.room_id,
+  proposedBy: row.proposed_by,
+  startsAt: row.starts_at,
+  durationMinutes: row.duration_minutes,
+  location: row.location,
+  topic: row.topic,
+  status: row.status,
+  respondedBy: row.responded_by,
+  respondedAt: row.responded_at,
+});
+
+/**
+ * Formats a duration in minutes ("45 min", "1 h", "1 h 30 min").
+ */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+}
+
+// Online sessions have a meeting link as their location
+export const isMeetingLink = (location: string): boolean =>
+  /^https?:\/\/\S+$/i.test(location.trim());
+
+export const sessionEndsAt = (session: StudySession): Date =>
+  new Date(
+    new Date(session.startsAt).getTime() + session.durationMinutes * 60 * 1000
+  );
+
+// "20261019T140000Z"
+const toIcsTime = (date: Date): string =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+// Text values escape backslashes, separators and newlines (RFC 5545 3.3.11)
+const escapeIcsText = (text: string): string =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 characters continue on the next line after a space
+const foldIcsLine = (line: string): string => {
+  const parts = [];
+  for (let i = 0; i < line.length; i += 74) parts.push(line.slice(i, i + 74));
+  return parts.join("\r\n ");
+};
+
+/**
+ * Builds an .ics calendar file with the session as its only event.
+ * @param withNames Who it's with, e.g. "Anna" or a group name.
+ */
+export function buildSessionIcs(
+  session: StudySession,
+  withNames: string
+): string {
+  const location = session.location.trim();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//WSB Finder//Study sessions//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${session.id}@wsbfinder`,
+    `DTSTAMP:${toIcsTime(new Date())}`,
+    `DTSTART:${toIcsTime(new Date(session.startsAt))}`,
+    `DTEND:${toIcsTime(sessionEndsAt(session))}`,
+    `SUMMARY:${escapeIcsText(`Study session: ${session.topic}`)}`,
+    `DESCRIPTION:${escapeIcsText(`With ${withNames}`)}`,
+    ...(location ? [`LOCATION:${escapeIcsText(location)}`] : []),
+    ...(isMeetingLink(location) ? [`URL:${location}`] : []),
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,20 @@
+// lib/suspension.ts
+// Suspended accounts (see lib/create_moderation_tables.sql) are refused by the
+// API routes as well as by the chat server.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Checks whether the signed-in user's account is suspended. Like the chat
+ * server, a failed lookup lets the user in rather than locking everyone out.
+ */
+export async function isAccountSuspended(
+  supabase: SupabaseClient
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc("is_current_user_suspended");
+  if (error) {
+    console.error("Suspension check failed:", error.message);
+    return false;
+  }
+  return data === true;
+}
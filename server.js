@@ -1,4 +1,5 @@
 const { createServer } = require("http");
+const { loadEnvConfig } = require("@next/env");
 const next = require("next");
 const { Server } = require("socket.io");
 
@@ -6,13 +7,82 @@ const dev = process.env.NODE_ENV !== "production";
 const hostname = "localhost";
 const port = 3000; // Default Next.js port
 
+// Load .env* files before anything reads process.env (Supabase keys)
+loadEnvConfig(process.cwd(), dev);
+
+const { authenticateSocket } = require("./server/auth");
+const {
+  createRoomId,
+  groupRoomId,
+  getRoomMemberIds,
+  authorizeRoom,
+  removeMatch,
+  watchMatchRemovals,
+} = require("./server/rooms");
+const { blockUser } = require("./server/blocks");
+const { filterMessage, recordFloodActivity } = require("./server/filter");
+const {
+  MAX_PAYLOAD_BYTES,
+  rejectRateLimited,
+  limitSocketEvents,
+} = require("./server/rate-limit");
+const {
+  isModerator,
+  createReport,
+  flagMessage,
+  getOpenReports,
+  resolveReport,
+  getPendingWarnings,
+  acknowledgeWarning,
+} = require("./server/moderation");
+const {
+  getUserGroups,
+  createGroup,
+  addGroupMembers,
+  renameGroup,
+  leaveGroup,
+} = require("./server/groups");
+const {
+  MAX_MESSAGE_LENGTH,
+  isMessageInRoom,
+  saveMessage,
+  getMessagesSince,
+  editMessage,
+  deleteMessage,
+} = require("./server/messages");
+const {
+  userRoom,
+  trackPresence,
+  untrackPresence,
+  sendPresenceSnapshot,
+} = require("./server/presence");
+const { getReadStates, markRead } = require("./server/receipts");
+const { toggleReaction } = require("./server/reactions");
+const {
+  getPins,
+  pinMessage,
+  unpinMessage,
+  isPinned,
+} = require("./server/pins");
+const {
+  getSession,
+  createSession,
+  respondToSession,
+} = require("./server/sessions");
+const { verifyAttachment } = require("./server/attachments");
+const { searchMessages } = require("./server/search");
+const { startTyping, stopTyping, stopAllTyping } = require("./server/typing");
+const { getUnreadCounts, countUnread } = require("./server/unread");
+
+// Message and group IDs and outbox client IDs (crypto.randomUUID in the
+// browser) are UUIDs
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 // Initialize Next.js app
 const app = next({ dev, hostname, port });
 const handler = app.getRequestHandler();
 
-// Keep track of users and their socket IDs (simple in-memory store)
-const userSocketMap = new Map(); // Map<userId, socketId>
-
 app.prepare().then(() => {
   // Create HTTP server
   const httpServer = createServer(handler);
@@ -20,56 +90,924 @@ app.prepare().then(() => {
   // Attach Socket.IO to the HTTP server
   const io = new Server(httpServer, {
     // No specific path needed here, defaults to /socket.io
+    // Payloads up to twice the event limit still arrive, so the client gets a
+    // PAYLOAD_TOO_LARGE error for them (anything bigger closes the connection)
+    maxHttpBufferSize: MAX_PAYLOAD_BYTES * 2,
     // Add CORS configuration if needed for different origins
     // cors: { origin: "*", methods: ["GET", "POST"] }
   });
 
+  // Reject any connection that doesn't carry a valid Supabase session
+  io.use(authenticateSocket);
+  // ...and, for a while, from users disconnected for flooding
+  io.use(rejectRateLimited);
+
   // --- Socket.IO Connection Logic ---
   io.on("connection", (socket) => {
-    console.log("Socket connected:", socket.id);
+    const userId = socket.data.userId; // Set by authenticateSocket
+    console.log(`Socket connected: ${socket.id} (user ${userId})`);
+    // Refuse events beyond the user's rate and payload limits
+    limitSocketEvents(socket);
+    // Register the socket and let the user's matches know they're online
+    trackPresence(io, socket).catch((err) =>
+      console.error("Presence tracking failed:", err)
+    );
+    // Unread counts for every conversation, so badges are right after a reload
+    getUnreadCounts(userId)
+      .then((counts) => socket.emit("unread:snapshot", counts))
+      .catch((err) => console.error("Loading unread counts failed:", err));
+    // Moderator warnings stay up until the user acknowledges them
+    getPendingWarnings(userId)
+      .then((warnings) =>
+        warnings.forEach((w) => socket.emit("moderation:warning", w))
+      )
+      .catch((err) => console.error("Loading warnings failed:", err));
 
-    socket.on("registerUser", (userId) => {
-      if (userId) {
-        console.log(`Registering user ${userId} with socket ${socket.id}`);
-        userSocketMap.set(userId, socket.id);
-      }
+    // Pages that attach listeners after connecting can ask for presence again
+    socket.on("presence:get", () => {
+      sendPresenceSnapshot(socket, userId).catch((err) =>
+        console.error("Presence snapshot failed:", err)
+      );
     });
 
-    socket.on("joinRoom", (roomId) => {
+    // Recount a user's unread messages in a room and push it to all their tabs
+    const pushUnreadCount = async (roomId, forUserId) => {
+      const count = await countUnread(roomId, forUserId);
+      if (count !== null) {
+        io.to(userRoom(forUserId)).emit("unread:update", { roomId, count });
+      }
+    };
+
+    // Same for every member of the room except this user
+    const pushUnreadCountsToOthers = async (roomId) => {
+      const memberIds = await getRoomMemberIds(roomId);
+      for (const memberId of memberIds) {
+        if (memberId !== userId) await pushUnreadCount(roomId, memberId);
+      }
+    };
+
+    // Keep every member's sidebar preview of the room current, in all their
+    // tabs (a new, edited or deleted message)
+    const pushConversationPreview = async (roomId, message) => {
+      const memberIds = await getRoomMemberIds(roomId);
+      if (memberIds.length === 0) return; // An empty target would reach everyone
+      io.to(memberIds.map(userRoom)).emit("conversation:message", message);
+    };
+
+    socket.on("joinRoom", async (roomId, ack) => {
+      // Optional ack lets clients wait for the join (e.g. before replaying)
+      const reply = typeof ack === "function" ? ack : () => {};
+      // Only members of an existing match or group may join its room
+      if (!(await authorizeRoom(userId, roomId))) {
+        console.warn(`User ${userId} denied access to room ${roomId}`);
+        const error = {
+          code: "ROOM_FORBIDDEN",
+          roomId,
+          message: "You can only chat with your matches.",
+        };
+        socket.emit("chatError", error);
+        reply({ ok: false, ...error });
+        return;
+      }
       console.log(`Socket ${socket.id} joining room ${roomId}`);
       socket.join(roomId);
+      reply({ ok: true });
+      // Send both members' read positions (unread separator + read ticks)
+      getReadStates(roomId)
+        .then((reads) => socket.emit("read:snapshot", { roomId, reads }))
+        .catch((err) => console.error("Loading read states failed:", err));
+      getPins(roomId)
+        .then((pins) => socket.emit("pins:update", { roomId, pins }))
+        .catch((err) => console.error("Loading pins failed:", err));
     });
 
     socket.on("leaveRoom", (roomId) => {
       console.log(`Socket ${socket.id} leaving room ${roomId}`);
+      stopTyping(socket, roomId);
       socket.leave(roomId);
     });
 
-    socket.on("sendMessage", (data) => {
-      const { text, roomId, senderId } = data;
+    // Replay what a reconnecting client missed: for each room it had open,
+    // every message after the last one it has seen (in pages - hasMore lists
+    // the rooms to ask again for)
+    socket.on("sync:missed", async (data, ack) => {
+      const reply = typeof ack === "function" ? ack : () => {};
+      const rooms = Array.isArray(data?.rooms) ? data.rooms.slice(0, 20) : [];
+      try {
+        const messages = [];
+        const hasMore = [];
+        for (const { roomId, lastMessageId } of rooms) {
+          if (!(await authorizeRoom(userId, roomId))) continue;
+          const page = await getMessagesSince(roomId, lastMessageId);
+          messages.push(...page.messages);
+          if (page.hasMore) hasMore.push(roomId);
+        }
+        reply({ ok: true, messages, hasMore });
+      } catch (err) {
+        console.error("Failed to replay missed messages:", err.message || err);
+        reply({
+          ok: false,
+          code: "SYNC_FAILED",
+          message: "Could not load missed messages.",
+        });
+      }
+    });
+
+    // Move the user's read position forward and tell the room and the
+    // user's other tabs
+    const advanceReadState = async (roomId, messageId) => {
+      const state = await markRead({ roomId, userId, messageId });
+      if (state) {
+        io.to([roomId, userRoom(userId)]).emit("read:update", state);
+        await pushUnreadCount(roomId, userId);
+      }
+    };
+
+    socket.on("read:mark", (data) => {
+      const { roomId, messageId } = data || {};
+      if (!roomId || !messageId || !socket.rooms.has(roomId)) return;
+      advanceReadState(roomId, messageId).catch((err) =>
+        console.error("Failed to mark messages read:", err)
+      );
+    });
+
+    // Typing indicators, scoped to rooms this socket has joined
+    socket.on("typing:start", (roomId) => startTyping(socket, roomId));
+    socket.on("typing:stop", (roomId) => stopTyping(socket, roomId));
+
+    // Ack for message text over the length limit (new messages and edits)
+    const tooLong = {
+      ok: false,
+      code: "INVALID_MESSAGE",
+      message: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters long.`,
+    };
+
+    // Files a report for the moderators if the chat filter flagged a message
+    const flagFilteredMessage = (messageId, roomId, rules) => {
+      if (rules.length === 0) return;
+      flagMessage({ messageId, roomId, rules }).catch((err) =>
+        console.error("Flagging message failed:", err.message || err)
+      );
+    };
+
+    // Shows a newly stored message to the rest of the room and updates
+    // everyone's read state, badges and sidebar previews
+    const broadcastNewMessage = async (roomId, message) => {
+      // Broadcast to everyone else in the room (incl. the sender's other tabs)
+      socket.to(roomId).emit("receiveMessage", message);
+      // Sending a message means the sender has read everything before it
+      await advanceReadState(roomId, message.id);
+      // Bump the recipients' badges, wherever they are in the app
+      await pushUnreadCountsToOthers(roomId);
+      await pushConversationPreview(roomId, message);
+    };
+
+    socket.on("sendMessage", async (data, ack) => {
+      // Ignore any senderId in the payload - the sender is the verified user
+      const { text = "", roomId, clientId, replyToId, attachment } = data || {};
+      const senderId = userId;
+      const reply = typeof ack === "function" ? ack : () => {};
+
+      if (!roomId) {
+        return reply({
+          ok: false,
+          code: "NOT_IN_ROOM",
+          message: "Join the conversation before sending messages.",
+        });
+      }
+      // Queued (outbox) messages may target a room this socket hasn't joined,
+      // so fall back to checking the match itself
+      if (!socket.rooms.has(roomId) && !(await authorizeRoom(userId, roomId))) {
+        return reply({
+          ok: false,
+          code: "ROOM_FORBIDDEN",
+          message: "You can only chat with your matches.",
+        });
+      }
+      if (clientId !== undefined && !UUID_PATTERN.test(String(clientId))) {
+        return reply({
+          ok: false,
+          code: "INVALID_MESSAGE",
+          message: "Invalid message ID.",
+        });
+      }
+      // A message needs text, an attachment, or both
+      if (typeof text !== "string" || (!text.trim() && !attachment)) {
+        return reply({
+          ok: false,
+          code: "INVALID_MESSAGE",
+          message: "Message text is required.",
+        });
+      }
+      if (text.length > MAX_MESSAGE_LENGTH) return reply(tooLong);
+
       console.log(
         `Message received in room ${roomId} from ${senderId}: ${text}`
       );
-      // Emit only to others in the room
-      socket.to(roomId).emit("receiveMessage", { text, roomId, senderId });
-      // Optional: Persist message
+      let filtered;
+      let saved;
+      try {
+        // A reply must point at a message in the same conversation
+        if (
+          replyToId &&
+          (!UUID_PATTERN.test(String(replyToId)) ||
+            !(await isMessageInRoom(replyToId, roomId)))
+        ) {
+          return reply({
+            ok: false,
+            code: "INVALID_MESSAGE",
+            message: "The message you replied to no longer exists.",
+          });
+        }
+        // Use the file as stored, not what the client claims about it
+        const storedAttachment = attachment
+          ? await verifyAttachment(attachment, roomId, senderId, clientId)
+          : null;
+        if (attachment && !storedAttachment) {
+          return reply({
+            ok: false,
+            code: "INVALID_ATTACHMENT",
+            message:
+              "The attachment is missing, already sent, too large or of an unsupported type.",
+          });
+        }
+        // Mask, refuse or flag offensive words, link spam and flooding
+        filtered = filterMessage(userId, text, { clientId });
+        if (filtered.error) return reply({ ok: false, ...filtered.error });
+        // Persist first so every client sees the same ID and timestamp
+        stopTyping(socket, roomId); // Sending ends the typing state
+        saved = await saveMessage({
+          roomId,
+          senderId,
+          text: filtered.text,
+          clientId,
+          replyToId,
+          attachment: storedAttachment,
+        });
+      } catch (err) {
+        console.error("Failed to save message:", err.message || err);
+        return reply({
+          ok: false,
+          code: "SAVE_FAILED",
+          message: "Message could not be saved. Please try again.",
+        });
+      }
+
+      const { message, duplicate } = saved;
+      reply({ ok: true, message });
+      // A retry of an already stored message was broadcast the first time
+      if (duplicate) return;
+      recordFloodActivity(userId, text, clientId);
+      flagFilteredMessage(message.id, roomId, filtered.flags);
+      broadcastNewMessage(roomId, message).catch((err) =>
+        console.error("Broadcasting message failed:", err.message || err)
+      );
     });
 
-    socket.on("disconnect", (reason) => {
-      console.log(`Socket disconnected: ${socket.id}, reason: ${reason}`);
-      for (const [userId, socketId] of userSocketMap.entries()) {
-        if (socketId === socket.id) {
-          userSocketMap.delete(userId);
-          console.log(
-            `Unregistered user ${userId} associated with socket ${socket.id}`
+    // Checks the room/message of an edit, delete or reaction request
+    // @returns An error ack payload, or null if the request can go ahead
+    const validateMessageChange = (roomId, messageId) => {
+      if (!roomId || !socket.rooms.has(roomId)) {
+        return {
+          ok: false,
+          code: "NOT_IN_ROOM",
+          message: "Join the conversation before changing messages.",
+        };
+      }
+      if (!UUID_PATTERN.test(String(messageId))) {
+        return {
+          ok: false,
+          code: "INVALID_MESSAGE",
+          message: "Invalid message ID.",
+        };
+      }
+      return null;
+    };
+
+    // Applies an edit/delete and shows the result to the rest of the room
+    // (incl. the user's other tabs)
+    // @returns The updated message, or null if it was refused or failed
+    const changeOwnMessage = async (event, roomId, change, reply) => {
+      try {
+        const { message, error } = await change();
+        if (error) {
+          reply({ ok: false, ...error });
+          return null;
+        }
+        reply({ ok: true, message });
+        socket.to(roomId).emit(event, message);
+        await pushConversationPreview(roomId, message).catch((err) =>
+          console.error("Conversation preview update failed:", err)
+        );
+        return message;
+      } catch (err) {
+        console.error(
+          `Failed to update message (${event}):`,
+          err.message || err
+        );
+        reply({
+          ok: false,
+          code: "SAVE_FAILED",
+          message: "Message could not be updated. Please try again.",
+        });
+        return null;
+      }
+    };
+
+    socket.on("message:edit", async (data, ack) => {
+      const { roomId, messageId, text } = data || {};
+      const reply = typeof ack === "function" ? ack : () => {};
+      const invalid = validateMessageChange(roomId, messageId);
+      if (invalid) return reply(invalid);
+      if (typeof text !== "string" || !text.trim()) {
+        return reply({
+          ok: false,
+          code: "INVALID_MESSAGE",
+          message: "Message text is required.",
+        });
+      }
+      if (text.length > MAX_MESSAGE_LENGTH) return reply(tooLong);
+      const filtered = filterMessage(userId, text, { isEdit: true });
+      if (filtered.error) return reply({ ok: false, ...filtered.error });
+      const edited = await changeOwnMessage(
+        "message:edited",
+        roomId,
+        () => editMessage({ roomId, messageId, userId, text: filtered.text }),
+        reply
+      );
+      if (edited) {
+        flagFilteredMessage(edited.id, roomId, filtered.flags);
+        // The pinned bar shows the new text too
+        if (await isPinned(edited.id).catch(() => false)) {
+          await pushPins(roomId).catch((err) =>
+            console.error("Pins update failed:", err)
           );
-          break; // Assuming one user ID per socket ID
         }
       }
     });
+
+    socket.on("message:delete", async (data, ack) => {
+      const { roomId, messageId } = data || {};
+      const reply = typeof ack === "function" ? ack : () => {};
+      const invalid = validateMessageChange(roomId, messageId);
+      if (invalid) return reply(invalid);
+      const deleted = await changeOwnMessage(
+        "message:deleted",
+        roomId,
+        () => deleteMessage({ roomId, messageId, userId }),
+        reply
+      );
+      if (deleted) {
+        // A deleted message no longer counts as unread for the recipients
+        await pushUnreadCountsToOthers(roomId).catch((err) =>
+          console.error("Unread count update failed:", err)
+        );
+        await unpinDeleted(roomId, deleted.id);
+      }
+    });
+
+    // Add, change or remove the user's reaction to a message; everyone in the
+    // room (incl. this socket) applies the same update
+    socket.on("reaction:toggle", async (data, ack) => {
+      const { roomId, messageId, emoji } = data || {};
+      const reply = typeof ack === "function" ? ack : () => {};
+      const invalid = validateMessageChange(roomId, messageId);
+      if (invalid) return reply(invalid);
+      try {
+        const { update, error } = await toggleReaction({
+          roomId,
+          messageId,
+          userId,
+          emoji,
+        });
+        if (error) return reply({ ok: false, ...error });
+        reply({ ok: true, update });
+        io.to(roomId).emit("reaction:update", update);
+      } catch (err) {
+        console.error("Failed to save reaction:", err.message || err);
+        reply({
+          ok: false,
+          code: "SAVE_FAILED",
+          message: "Reaction could not be saved. Please try again.",
+        });
+      }
+    });
+
+    // --- Pinned messages ---
+    // Any member may pin or unpin; every change sends the room's full list
+
+    const pushPins = async (roomId) => {
+      io.to(roomId).emit("pins:update", {
+        roomId,
+        pins: await getPins(roomId),
+      });
+    };
+
+    // Deleted messages don't stay pinned
+    const unpinDeleted = async (roomId, messageId) => {
+      try {
+        if (await unpinMessage(roomId, messageId)) await pushPins(roomId);
+      } catch (err) {
+        console.error("Unpinning deleted message failed:", err);
+      }
+    };
+
+    socket.on("message:pin", async (data, ack) => {
+      const { roomId, messageId, pinned } = data || {};
+      const reply = typeof ack === "function" ? ack : () => {};
+      const invalid = validateMessageChange(roomId, messageId);
+      if (invalid) return reply(invalid);
+      try {
+        let pins;
+        if (pinned) {
+          const result = await pinMessage({ roomId, messageId, userId });
+          if (result.error) return reply({ ok: false, ...result.error });
+          pins = result.pins;
+        } else {
+          await unpinMessage(roomId, messageId);
+          pins = await getPins(roomId);
+        }
+        reply({ ok: true });
+        io.to(roomId).emit("pins:update", { roomId, pins });
+      } catch (err) {
+        console.error("Failed to update pins:", err.message || err);
+        reply({
+          ok: false,
+          code: "SAVE_FAILED",
+          message: "The pin could not be saved. Please try again.",
+        });
+      }
+    });
+
+    // --- Study sessions ---
+    // A proposal is posted as a message carrying the session; answers and
+    // reschedules update that message's session for every member
+
+    // Tells every member's tabs about a session's new status
+    const pushSessionUpdate = async (session) => {
+      const memberIds = await getRoomMemberIds(session.roomId);
+      if (memberIds.length === 0) return; // An empty target would reach everyone
+      io.to(memberIds.map(userRoom)).emit("session:update", session);
+    };
+
+    socket.on("session:propose", async (data, ack) => {
+      const {
+        roomId,
+        startsAt,
+        durationMinutes,
+        location,
+        topic,
+        replacesSessionId,
+      } = data || {};
+      const reply = typeof ack === "function" ? ack : () => {};
+      if (!roomId || !socket.rooms.has(roomId)) {
+        return reply({
+          ok: false,
+          code: "NOT_IN_ROOM",
+          message: "Join the conversation before proposing a session.",
+        });
+      }
+      if (
+        replacesSessionId !== undefined &&
+        !UUID_PATTERN.test(String(replacesSessionId))
+      ) {
+        return reply({
+          ok: false,
+          code: "INVALID_SESSION",
+          message: "Invalid session ID.",
+        });
+      }
+      // Topic and location are shown like message text, so filter them too
+      const filteredTopic = filterMessage(userId, String(topic ?? ""), {
+        isEdit: true,
+      });
+      const filteredLocation = filterMessage(userId, String(location ?? ""), {
+        isEdit: true,
+      });
+      const blocked = filteredTopic.error || filteredLocation.error;
+      if (blocked) return reply({ ok: false, ...blocked });
+      let created;
+      let message;
+      try {
+        const result = await createSession({
+          roomId,
+          userId,
+          details: {
+            startsAt,
+            durationMinutes,
+            location: filteredLocation.text,
+            topic: filteredTopic.text,
+          },
+          replacesSessionId,
+        });
+        if (result.error) return reply({ ok: false, ...result.error });
+        created = result;
+        ({ message } = await saveMessage({
+          roomId,
+          senderId: userId,
+          text: `Study session proposal: ${created.session.topic}`,
+          studySessionId: created.session.id,
+        }));
+      } catch (err) {
+        console.error("Failed to propose session:", err.message || err);
+        return reply({
+          ok: false,
+          code: "SAVE_FAILED",
+          message: "The proposal could not be sent. Please try again.",
+        });
+      }
+
+      reply({ ok: true, message });
+      flagFilteredMessage(message.id, roomId, [
+        ...new Set([...filteredTopic.flags, ...filteredLocation.flags]),
+      ]);
+      if (created.replaced) {
+        pushSessionUpdate(created.replaced).catch((err) =>
+          console.error("Session update failed:", err.message || err)
+        );
+      }
+      broadcastNewMessage(roomId, message).catch((err) =>
+        console.error("Broadcasting proposal failed:", err.message || err)
+      );
+    });
+
+    socket.on("session:respond", async (data, ack) => {
+      const { sessionId, response } = data || {};
+      const reply = typeof ack === "function" ? ack : () => {};
+      if (!UUID_PATTERN.test(String(sessionId))) {
+        return reply({
+          ok: false,
+          code: "INVALID_SESSION",
+          message: "Invalid session ID.",
+        });
+      }
+      let answered;
+      try {
+        const session = await getSession(sessionId);
+        // Only members of the session's conversation may answer it
+        if (!session || !(await authorizeRoom(userId, session.roomId))) {
+          return reply({
+            ok: false,
+            code: "INVALID_SESSION",
+            message: "This session no longer exists.",
+          });
+        }
+        const result = await respondToSession({ session, userId, response });
+        if (result.error) return reply({ ok: false, ...result.error });
+        answered = result.session;
+      } catch (err) {
+        console.error("Failed to answer session:", err.message || err);
+        return reply({
+          ok: false,
+          code: "SAVE_FAILED",
+          message: "Your answer could not be saved. Please try again.",
+        });
+      }
+
+      reply({ ok: true, session: answered });
+      pushSessionUpdate(answered).catch((err) =>
+        console.error("Session update failed:", err.message || err)
+      );
+    });
+
+    // --- Unmatching and blocking ---
+    // Both end the 1:1 chat for the two users' tabs right away (the match
+    // removal subscription would too, but only for sockets in the room).
+    // A blocked user gets the same "roomClosed" as after an unmatch.
+
+    const closeMatchRoom = (otherUserId) => {
+      const roomId = createRoomId(userId, otherUserId);
+      io.to([roomId, userRoom(userId), userRoom(otherUserId)]).emit(
+        "roomClosed",
+        { roomId }
+      );
+      io.in(roomId).socketsLeave(roomId);
+    };
+
+    const invalidUserId = (otherUserId) =>
+      UUID_PATTERN.test(String(otherUserId)) && otherUserId !== userId
+        ? null
+        : { ok: false, code: "INVALID_USER", message: "Invalid user ID." };
+
+    socket.on("match:unmatch", async (data, ack) => {
+      const { userId: otherUserId } = data || {};
+      const reply = typeof ack === "function" ? ack : () => {};
+      const invalid = invalidUserId(otherUserId);
+      if (invalid) return reply(invalid);
+      try {
+        if (!(await removeMatch(userId, otherUserId))) {
+          return reply({
+            ok: false,
+            code: "ROOM_FORBIDDEN",
+            message: "You're not matched with this user.",
+          });
+        }
+        reply({ ok: true });
+        closeMatchRoom(otherUserId);
+      } catch (err) {
+        console.error("Failed to unmatch:", err.message || err);
+        reply({
+          ok: false,
+          code: "SAVE_FAILED",
+          message: "Could not unmatch. Please try again.",
+        });
+      }
+    });
+
+    // Anyone can be blocked, matched or not (e.g. a match candidate)
+    socket.on("user:block", async (data, ack) => {
+      const { userId: blockedUserId } = data || {};
+      const reply = typeof ack === "function" ? ack : () => {};
+      const invalid = invalidUserId(blockedUserId);
+      if (invalid) return reply(invalid);
+      try {
+        await blockUser(userId, blockedUserId);
+        reply({ ok: true });
+        closeMatchRoom(blockedUserId);
+      } catch (err) {
+        console.error("Failed to block user:", err.message || err);
+        reply({
+          ok: false,
+          code: "SAVE_FAILED",
+          message: "Could not block this user. Please try again.",
+        });
+      }
+    });
+
+    // --- Reports and moderation ---
+
+    // Report a message (messageId + roomId) or a profile (userId)
+    socket.on("report:create", async (data, ack) => {
+      const {
+        messageId,
+        roomId,
+        userId: reportedUserId,
+        reason,
+        details,
+      } = data || {};
+      const reply = typeof ack === "function" ? ack : () => {};
+      if (messageId) {
+        if (!UUID_PATTERN.test(String(messageId))) {
+          return reply({
+            ok: false,
+            code: "INVALID_REPORT",
+            message: "Invalid message ID.",
+          });
+        }
+        // Only messages the user could see can be reported
+        if (
+          !roomId ||
+          (!socket.rooms.has(roomId) && !(await authorizeRoom(userId, roomId)))
+        ) {
+          return reply({
+            ok: false,
+            code: "ROOM_FORBIDDEN",
+            message: "You can only report messages in your own chats.",
+          });
+        }
+      } else if (!UUID_PATTERN.test(String(reportedUserId))) {
+        return reply({
+          ok: false,
+          code: "INVALID_REPORT",
+          message: "Invalid user ID.",
+        });
+      }
+      try {
+        const { reportId, error } = await createReport({
+          userId,
+          messageId,
+          roomId,
+          reportedUserId,
+          reason,
+          details,
+        });
+        if (error) return reply({ ok: false, ...error });
+        reply({ ok: true, reportId });
+      } catch (err) {
+        console.error("Failed to save report:", err.message || err);
+        reply({
+          ok: false,
+          code: "SAVE_FAILED",
+          message: "Your report could not be sent. Please try again.",
+        });
+      }
+    });
+
+    socket.on("moderation:acknowledge", (data) => {
+      const { warningId } = data || {};
+      if (!UUID_PATTERN.test(String(warningId))) return;
+      acknowledgeWarning(userId, warningId).catch((err) =>
+        console.error("Acknowledging warning failed:", err)
+      );
+    });
+
+    // Moderators only: the open reports
+    socket.on("moderation:list", async (ack) => {
+      const reply = typeof ack === "function" ? ack : () => {};
+      if (!(await isModerator(userId))) {
+        return reply({
+          ok: false,
+          code: "MODERATION_FORBIDDEN",
+          message: "Only moderators can see reports.",
+        });
+      }
+      try {
+        reply({ ok: true, reports: await getOpenReports() });
+      } catch (err) {
+        console.error("Failed to load reports:", err.message || err);
+        reply({
+          ok: false,
+          code: "SYNC_FAILED",
+          message: "Could not load reports. Please try again.",
+        });
+      }
+    });
+
+    // Moderators only: handle a report, then tell the affected clients
+    socket.on("moderation:resolve", async (data, ack) => {
+      const { reportId, action, note } = data || {};
+      const reply = typeof ack === "function" ? ack : () => {};
+      if (!(await isModerator(userId))) {
+        return reply({
+          ok: false,
+          code: "MODERATION_FORBIDDEN",
+          message: "Only moderators can handle reports.",
+        });
+      }
+      if (!UUID_PATTERN.test(String(reportId))) {
+        return reply({
+          ok: false,
+          code: "INVALID_REPORT",
+          message: "Invalid report ID.",
+        });
+      }
+      try {
+        const result = await resolveReport({
+          moderatorId: userId,
+          reportId,
+          action,
+          note,
+        });
+        if (result.error) return reply({ ok: false, ...result.error });
+        reply({ ok: true });
+
+        const targetRoom = userRoom(result.targetUserId);
+        if (result.warning) {
+          io.to(targetRoom).emit("moderation:warning", result.warning);
+        }
+        if (result.removedMessage) {
+          const { roomId } = result.removedMessage;
+          io.to(roomId).emit("message:deleted", result.removedMessage);
+          await pushConversationPreview(roomId, result.removedMessage);
+          for (const memberId of await getRoomMemberIds(roomId)) {
+            await pushUnreadCount(roomId, memberId);
+          }
+          await unpinDeleted(roomId, result.removedMessage.id);
+        }
+        if (result.suspended) {
+          // Their clients stop reconnecting once refused as suspended
+          io.to(targetRoom).emit("moderation:suspended");
+          io.in(targetRoom).disconnectSockets(true);
+        }
+      } catch (err) {
+        console.error("Failed to resolve report:", err.message || err);
+        reply({
+          ok: false,
+          code: "SAVE_FAILED",
+          message: "The action could not be saved. Please try again.",
+        });
+      }
+    });
+
+    // Full-text search across the user's own conversations (the database
+    // function derives the rooms from the user's matches)
+    socket.on("search:messages", async (data, ack) => {
+      const reply = typeof ack === "function" ? ack : () => {};
+      try {
+        const { results, error } = await searchMessages(userId, data?.query);
+        if (error) return reply({ ok: false, ...error });
+        reply({ ok: true, results });
+      } catch (err) {
+        console.error("Failed to search messages:", err.message || err);
+        reply({
+          ok: false,
+          code: "SEARCH_FAILED",
+          message: "Search failed. Please try again.",
+        });
+      }
+    });
+
+    // --- Group chats ---
+    // Every change is sent to all members' tabs as "group:update", so
+    // sidebars (incl. those of newly added members) stay in sync
+
+    const notifyGroupMembers = (group) => {
+      const memberRooms = group.members.map((m) => userRoom(m.userId));
+      if (memberRooms.length > 0) {
+        io.to(memberRooms).emit("group:update", group);
+      }
+    };
+
+    // Runs a group change and acks/broadcasts the resulting group
+    // @returns The group, or null if it was refused or failed
+    const changeGroup = async (change, reply) => {
+      try {
+        const { group, error } = await change();
+        if (error) {
+          reply({ ok: false, ...error });
+          return null;
+        }
+        reply({ ok: true, group });
+        notifyGroupMembers(group);
+        return group;
+      } catch (err) {
+        console.error("Failed to update group:", err.message || err);
+        reply({
+          ok: false,
+          code: "SAVE_FAILED",
+          message: "The group could not be updated. Please try again.",
+        });
+        return null;
+      }
+    };
+
+    const invalidGroupId = (groupId) =>
+      UUID_PATTERN.test(String(groupId))
+        ? null
+        : { ok: false, code: "INVALID_GROUP", message: "Invalid group ID." };
+
+    socket.on("group:list", async (ack) => {
+      const reply = typeof ack === "function" ? ack : () => {};
+      try {
+        reply({ ok: true, groups: await getUserGroups(userId) });
+      } catch (err) {
+        console.error("Failed to load groups:", err.message || err);
+        reply({
+          ok: false,
+          code: "SYNC_FAILED",
+          message: "Could not load your groups.",
+        });
+      }
+    });
+
+    socket.on("group:create", async (data, ack) => {
+      const { name, memberIds } = data || {};
+      const reply = typeof ack === "function" ? ack : () => {};
+      await changeGroup(() => createGroup({ userId, name, memberIds }), reply);
+    });
+
+    socket.on("group:invite", async (data, ack) => {
+      const { groupId, memberIds } = data || {};
+      const reply = typeof ack === "function" ? ack : () => {};
+      const invalid = invalidGroupId(groupId);
+      if (invalid) return reply(invalid);
+      await changeGroup(
+        () => addGroupMembers({ groupId, userId, memberIds }),
+        reply
+      );
+    });
+
+    socket.on("group:rename", async (data, ack) => {
+      const { groupId, name } = data || {};
+      const reply = typeof ack === "function" ? ack : () => {};
+      const invalid = invalidGroupId(groupId);
+      if (invalid) return reply(invalid);
+      await changeGroup(() => renameGroup({ groupId, userId, name }), reply);
+    });
+
+    // The remaining members get the new member list; the user's own tabs
+    // drop the group and are taken out of its room
+    socket.on("group:leave", async (data, ack) => {
+      const { groupId } = data || {};
+      const reply = typeof ack === "function" ? ack : () => {};
+      const invalid = invalidGroupId(groupId);
+      if (invalid) return reply(invalid);
+      const group = await changeGroup(
+        () => leaveGroup({ groupId, userId }),
+        reply
+      );
+      if (group) {
+        const roomId = groupRoomId(groupId);
+        stopTyping(socket, roomId);
+        io.to(userRoom(userId)).emit("group:left", { groupId, roomId });
+        io.in(userRoom(userId)).socketsLeave(roomId);
+      }
+    });
+
+    socket.on("disconnect", (reason) => {
+      console.log(`Socket disconnected: ${socket.id}, reason: ${reason}`);
+      stopAllTyping(socket);
+      // Marks the user offline only when their last tab disconnects
+      untrackPresence(io, socket).catch((err) =>
+        console.error("Presence update failed:", err)
+      );
+    });
   });
   // --- End Socket.IO Logic ---
 
+  // Kick sockets out of rooms whose match was deleted
+  watchMatchRemovals(io);
+
   // Start the HTTP server
   httpServer
     .listen(port, () => {
@@ -0,0 +1,102 @@
+// server/attachments.js
+const { supabaseAdmin } = require("./supabaseAdmin");
+
+// Private bucket for chat files (see lib/create_chat_attachments_bucket.sql);
+// limits must match lib/attachments.ts
+const ATTACHMENT_BUCKET = "chat-attachments";
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const ALLOWED_ATTACHMENT_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-powerpoint",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+];
+
+// Positive integer or undefined (image dimensions reported by the client)
+const toDimension = (value) =>
+  Number.isInteger(value) && value > 0 ? value : undefined;
+
+/**
+ * Checks an attachment sent with a message against the uploaded file: it
+ * must be in the sender's folder in the room's folder, exist, not be
+ * attached to another message already, and be within the size and type
+ * limits. Size and type are taken from storage rather than the client.
+ * @param clientId The message's outbox ID, so a retry can use its file again.
+ * @returns The attachment to store with the message, or null if it isn't
+ *   acceptable.
+ * @throws If looking up the messages using the file fails.
+ */
+async function verifyAttachment(attachment, roomId, senderId, clientId) {
+  const path = attachment?.path;
+  if (
+    typeof path !== "string" ||
+    !path.startsWith(`${roomId}/${senderId}/`) ||
+    path.includes("..")
+  ) {
+    return null;
+  }
+
+  // One file per message, so deleting the message always removes the file
+  const { data: uses, error: usesError } = await supabaseAdmin
+    .from("chat_messages")
+    .select("sender_id, client_id")
+    .eq("attachment->>path", path);
+  if (usesError) {
+    throw new Error(`Database error finding attachment: ${usesError.message}`);
+  }
+  const isRetry = (m) =>
+    !!clientId && m.sender_id === senderId && m.client_id === clientId;
+  if (!uses.every(isRetry)) {
+    console.warn(`Attachment ${path} is already used by another message`);
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin.storage
+    .from(ATTACHMENT_BUCKET)
+    .info(path);
+  if (error || !data) {
+    console.warn(`Attachment ${path} not found:`, error?.message);
+    return null;
+  }
+  const size = data.size;
+  const mimeType = data.contentType;
+  if (
+    !size ||
+    size > MAX_ATTACHMENT_BYTES ||
+    !ALLOWED_ATTACHMENT_TYPES.includes(mimeType)
+  ) {
+    return null;
+  }
+
+  return {
+    path,
+    name: String(attachment.name || path.split("/").pop()).slice(0, 255),
+    size,
+    mimeType,
+    width: toDimension(attachment.width),
+    height: toDimension(attachment.height),
+  };
+}
+
+/**
+ * Deletes a stored attachment (its message was deleted). Failures are only
+ * logged - the message itself is already gone.
+ */
+async function removeAttachment(path) {
+  const { error } = await supabaseAdmin.storage
+    .from(ATTACHMENT_BUCKET)
+    .remove([path]);
+  if (error) {
+    console.error(`Failed to remove attachment ${path}:`, error.message);
+  }
+}
+
+module.exports = { verifyAttachment, removeAttachment };
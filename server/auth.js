@@ -0,0 +1,51 @@
+// server/auth.js
+const { supabaseAdmin } = require("./supabaseAdmin");
+const { isSuspended } = require("./moderation");
+
+/**
+ * Socket.IO middleware that verifies the Supabase access token sent in the
+ * handshake (`io({ auth: { token } })`) and attaches the user to the socket.
+ * Connections without a valid session are rejected with "Unauthorized",
+ * suspended accounts with "AccountSuspended".
+ */
+async function authenticateSocket(socket, next) {
+  const token = socket.handshake.auth?.token;
+  if (!token || typeof token !== "string") {
+    console.warn(`Socket ${socket.id} rejected: missing access token`);
+    return next(new Error("Unauthorized"));
+  }
+
+  try {
+    const {
+      data: { user },
+      error,
+    } = await supabaseAdmin.auth.getUser(token);
+
+    if (error || !user) {
+      console.warn(
+        `Socket ${socket.id} rejected: invalid access token`,
+        error?.message
+      );
+      return next(new Error("Unauthorized"));
+    }
+
+    // A failed lookup lets the user in rather than locking everyone out
+    const suspended = await isSuspended(user.id).catch((err) => {
+      console.error("Suspension check failed:", err.message || err);
+      return false;
+    });
+    if (suspended) {
+      console.warn(`Socket ${socket.id} rejected: account suspended`);
+      return next(new Error("AccountSuspended"));
+    }
+
+    // Verified identity - handlers must use this, never client-supplied IDs
+    socket.data.userId = user.id;
+    next();
+  } catch (err) {
+    console.error("Socket authentication failed:", err);
+    next(new Error("Unauthorized"));
+  }
+}
+
+module.exports = { authenticateSocket };
@@ -0,0 +1,95 @@
+// server/blocks.js
+const { supabaseAdmin } = require("./supabaseAdmin");
+
+// IDs are pasted into .or() filter strings, so only UUIDs may get that far
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const areUuids = (ids) => ids.every((id) => UUID_PATTERN.test(String(id)));
+
+/**
+ * Checks whether either user has blocked the other.
+ * @returns True if there's a block in either direction (also on error or
+ *   for malformed IDs, so a failed lookup never lets a blocked user through).
+ */
+async function isBlockedBetween(userId, otherUserId) {
+  if (!areUuids([userId, otherUserId])) return true;
+  const { data, error } = await supabaseAdmin
+    .from("user_blocks")
+    .select("blocker_user_id")
+    .or(
+      `and(blocker_user_id.eq.${userId},blocked_user_id.eq.${otherUserId}),and(blocker_user_id.eq.${otherUserId},blocked_user_id.eq.${userId})`
+    )
+    .limit(1);
+
+  if (error) {
+    console.error("Block lookup error:", error.message);
+    return true;
+  }
+  return data.length > 0;
+}
+
+/**
+ * Checks whether anyone in one list has blocked anyone in the other, in
+ * either direction (e.g. new group members and the group's members).
+ * @returns True if there's such a block (also on error, like
+ *   isBlockedBetween).
+ */
+async function hasBlockBetweenAny(userIds, otherUserIds) {
+  if (userIds.length === 0 || otherUserIds.length === 0) return false;
+  if (!areUuids([...userIds, ...otherUserIds])) return true;
+  const list = (ids) => `(${ids.join(",")})`;
+  const { data, error } = await supabaseAdmin
+    .from("user_blocks")
+    .select("blocker_user_id")
+    .or(
+      `and(blocker_user_id.in.${list(userIds)},blocked_user_id.in.${list(otherUserIds)}),and(blocker_user_id.in.${list(otherUserIds)},blocked_user_id.in.${list(userIds)})`
+    )
+    .limit(1);
+
+  if (error) {
+    console.error("Block lookup error:", error.message);
+    return true;
+  }
+  return data.length > 0;
+}
+
+/**
+ * Blocks a user: records the block and removes the pair's match and any
+ * likes between them. The blocked user isn't notified; their chat closes
+ * as it would after an unmatch.
+ * @throws If a query fails.
+ */
+async function blockUser(userId, blockedUserId) {
+  const { error } = await supabaseAdmin
+    .from("user_blocks")
+    .upsert(
+      { blocker_user_id: userId, blocked_user_id: blockedUserId },
+      { onConflict: "blocker_user_id,blocked_user_id", ignoreDuplicates: true }
+    );
+  if (error) {
+    throw new Error(`Database error blocking user: ${error.message}`);
+  }
+
+  const { error: matchError } = await supabaseAdmin
+    .from("matches")
+    .delete()
+    .or(
+      `and(student1_user_id.eq.${userId},student2_user_id.eq.${blockedUserId}),and(student1_user_id.eq.${blockedUserId},student2_user_id.eq.${userId})`
+    );
+  if (matchError) {
+    throw new Error(`Database error removing match: ${matchError.message}`);
+  }
+
+  // A pending like must not turn into a match later
+  const { error: likesError } = await supabaseAdmin
+    .from("likes")
+    .delete()
+    .or(
+      `and(liker_user_id.eq.${userId},liked_user_id.eq.${blockedUserId}),and(liker_user_id.eq.${blockedUserId},liked_user_id.eq.${userId})`
+    );
+  if (likesError) {
+    throw new Error(`Database error removing likes: ${likesError.message}`);
+  }
+}
+
+module.exports = { isBlockedBetween, hasBlockBetweenAny, blockUser };
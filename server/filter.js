@@ -0,0 +1,249 @@
+// server/filter.js
+// Content filter for chat messages: offensive words (Polish and English),
+// link spam and repeated-message flooding. Each rule has an action, set
+// through environment variables:
+//   CHAT_FILTER_WORDS_ACTION  mask | block | flag | off   (default mask)
+//   CHAT_FILTER_LINKS_ACTION  mask | block | flag | off   (default flag)
+//   CHAT_FILTER_FLOOD_ACTION  block | flag | off          (default block)
+//   CHAT_FILTER_EXTRA_WORDS   comma-separated words to add to the list
+//   CHAT_FILTER_MAX_LINKS     links allowed per message (default 3)
+//   CHAT_FILTER_FLOOD_REPEATS same text allowed this many times... (default 3)
+//   CHAT_FILTER_FLOOD_WINDOW_SECONDS ...within this window (default 60)
+// "mask" replaces the offending parts, "block" refuses the message with an
+// explanation, "flag" delivers it but files it for moderators to review.
+
+const ACTIONS = ["mask", "block", "flag", "off"];
+
+function readAction(name, fallback, allowed = ACTIONS) {
+  const value = (process.env[name] || "").trim().toLowerCase();
+  if (!value) return fallback;
+  if (!allowed.includes(value)) {
+    console.error(`Ignoring ${name}="${value}", expected ${allowed.join("/")}`);
+    return fallback;
+  }
+  return value;
+}
+
+const config = {
+  words: readAction("CHAT_FILTER_WORDS_ACTION", "mask"),
+  links: readAction("CHAT_FILTER_LINKS_ACTION", "flag"),
+  // Masking a repeat doesn't make it any less of a repeat
+  flood: readAction("CHAT_FILTER_FLOOD_ACTION", "block", [
+    "block",
+    "flag",
+    "off",
+  ]),
+  maxLinks: Number(process.env.CHAT_FILTER_MAX_LINKS) || 3,
+  floodRepeats: Number(process.env.CHAT_FILTER_FLOOD_REPEATS) || 3,
+  floodWindowMs:
+    (Number(process.env.CHAT_FILTER_FLOOD_WINDOW_SECONDS) || 60) * 1000,
+};
+
+// Letters that don't decompose into a base letter + accent, and common
+// look-alike substitutions
+const CHAR_MAP = {
+  ł: "l",
+  ø: "o",
+  ß: "s",
+  0: "o",
+  1: "i",
+  3: "e",
+  4: "a",
+  5: "s",
+  7: "t",
+  $: "s",
+  "@": "a",
+};
+
+// Normalizes text for matching without changing its length, so match
+// positions can be used on the original text (for masking)
+function normalize(text) {
+  let result = "";
+  for (const char of text.split("")) {
+    const lower = char.toLowerCase();
+    const mapped = CHAR_MAP[lower] ?? lower.normalize("NFD")[0];
+    result += mapped && mapped.length === 1 ? mapped : char;
+  }
+  return result;
+}
+
+// Patterns are matched against normalized text (see normalize): lowercase,
+// no diacritics, common digit/symbol substitutions undone. "\w*" marks a
+// stem, so inflected forms (e.g. Polish cases) match too.
+const WORD_PATTERNS = [
+  // English
+  "fuck\\w*",
+  "motherfuck\\w*",
+  "shit\\w*",
+  "bullshit\\w*",
+  "bitch\\w*",
+  "cunt\\w*",
+  "asshole\\w*",
+  "bastard\\w*",
+  "dickhead\\w*",
+  "whore\\w*",
+  "slut\\w*",
+  "retard\\w*",
+  "fag(got)?s?",
+  "nigg(er|a)s?",
+  // Polish
+  "kurw\\w*",
+  "skurw\\w*",
+  "chuj\\w*",
+  "huj\\w*",
+  "pierdol\\w*",
+  "spierdal\\w*",
+  "wypierdal\\w*",
+  "jeba\\w*",
+  "jebi\\w*",
+  "jebn\\w*",
+  "zjeb\\w*",
+  "pizd\\w*",
+  "cip(a|y|e|o|ie|ami)",
+  "dziwk\\w*",
+  "ciot(a|y|o|ami)",
+  "debil\\w*",
+  "frajer\\w*",
+];
+
+// Escapes a plain word from CHAT_FILTER_EXTRA_WORDS for use in a pattern
+const escapeWord = (word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const extraWords = (process.env.CHAT_FILTER_EXTRA_WORDS || "")
+  .split(",")
+  .map((w) => normalize(w.trim()))
+  .filter(Boolean)
+  .map(escapeWord);
+
+// Whole words only: not preceded or followed by another letter
+const WORDS_REGEX = new RegExp(
+  `(?<![a-z])(?:${[...WORD_PATTERNS, ...extraWords].join("|")})(?![a-z])`,
+  "g"
+);
+
+const LINK_REGEX =
+  /\b(?:https?:\/\/|www\.)[^\s<>]+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|info|biz|xyz|top|io|ru|pl|ly|gg|me)\b(?:\/[^\s<>]*)?/gi;
+
+// Replaces the given [start, end) ranges of the text
+function replaceRanges(text, ranges, replace) {
+  let result = "";
+  let last = 0;
+  for (const [start, end] of ranges) {
+    result += text.slice(last, start) + replace(text.slice(start, end));
+    last = end;
+  }
+  return result + text.slice(last);
+}
+
+function findRanges(regex, text) {
+  return [...text.matchAll(regex)].map((m) => [m.index, m.index + m[0].length]);
+}
+
+// Recently sent texts per user for flood detection:
+// Map<userId, [{ key, clientId, at }]>
+const recentMessages = new Map();
+
+// Sent texts from the flood window, dropping the ones that fell out of it
+function recentFor(userId) {
+  const now = Date.now();
+  const recent = (recentMessages.get(userId) || []).filter(
+    (m) => now - m.at < config.floodWindowMs
+  );
+  recentMessages.set(userId, recent);
+  return recent;
+}
+
+// Collapses whitespace so spacing changes don't dodge the repeat check
+const floodKey = (normalized) => normalized.replace(/\s+/g, " ").trim();
+
+// How many times the text will have been sent, counting this message
+// (an outbox retry of the same message isn't a repeat)
+function countRepeats(userId, key, clientId) {
+  const recent = recentFor(userId);
+  const isRetry = !!clientId && recent.some((m) => m.clientId === clientId);
+  return recent.filter((m) => m.key === key).length + (isRetry ? 0 : 1);
+}
+
+/**
+ * Counts a sent message towards the flood limit. Called once the message
+ * is stored, so refused messages and failed saves don't count.
+ * @param clientId The outbox ID, so retries are only counted once.
+ */
+function recordFloodActivity(userId, text, clientId) {
+  if (config.flood === "off") return;
+  const key = floodKey(normalize(text));
+  if (!key) return;
+  const recent = recentFor(userId);
+  if (clientId && recent.some((m) => m.clientId === clientId)) return;
+  recent.push({ key, clientId, at: Date.now() });
+}
+
+// Forget users who stopped sending, so the map doesn't grow forever
+setInterval(() => {
+  const now = Date.now();
+  for (const [userId, recent] of recentMessages) {
+    if (recent.every((m) => now - m.at >= config.floodWindowMs)) {
+      recentMessages.delete(userId);
+    }
+  }
+}, 60 * 1000).unref();
+
+const BLOCK_MESSAGES = {
+  words:
+    "Your message wasn't sent because it contains offensive language. Please keep the conversation respectful.",
+  links: `Your message wasn't sent because it contains too many links (at most ${config.maxLinks}).`,
+  flood:
+    "Your message wasn't sent because you've sent the same text several times in a row. Please wait a moment.",
+};
+
+/**
+ * Runs a message's text through the filter rules.
+ * Only reads the flood history; recordFloodActivity counts the message.
+ * @param options.clientId The outbox ID, so retries don't count as repeats.
+ * @param options.isEdit Edits aren't checked for flooding.
+ * @returns { text } to store (masked where a rule says so), plus
+ *   { error } with the chat error code and text if a rule blocks it, and
+ *   { flags } with the names of the rules that want it reviewed.
+ */
+function filterMessage(userId, text, { clientId, isEdit = false } = {}) {
+  const normalized = normalize(text);
+  const flags = [];
+  let result = text;
+
+  // Returns an error if the rule blocks, and applies mask/flag otherwise
+  const apply = (rule, ranges, mask) => {
+    const action = config[rule];
+    if (action === "off" || ranges.length === 0) return null;
+    if (action === "block") {
+      return { code: "MESSAGE_BLOCKED", message: BLOCK_MESSAGES[rule] };
+    }
+    if (action === "flag") flags.push(rule);
+    if (action === "mask") result = replaceRanges(result, ranges, mask);
+    return null;
+  };
+
+  if (!isEdit && config.flood !== "off" && normalized.trim()) {
+    const key = floodKey(normalized);
+    if (countRepeats(userId, key, clientId) > config.floodRepeats) {
+      const error = apply("flood", [[0, text.length]], (s) => s);
+      if (error) return { text, error, flags };
+    }
+  }
+
+  const linkRanges = findRanges(LINK_REGEX, text);
+  const error = apply(
+    "links",
+    linkRanges.length > config.maxLinks ? linkRanges : [],
+    () => "[link removed]"
+  );
+  if (error) return { text, error, flags };
+
+  // Masking links changed positions, so look for words in the current text
+  const wordRanges = findRanges(WORDS_REGEX, normalize(result));
+  const wordsError = apply("words", wordRanges, (s) => "*".repeat(s.length));
+  if (wordsError) return { text, error: wordsError, flags };
+
+  return { text: result, flags };
+}
+
+module.exports = { filterMessage, recordFloodActivity };
@@ -0,0 +1,250 @@
+// server/groups.js
+const { supabaseAdmin } = require("./supabaseAdmin");
+const { groupRoomId, getRoomMemberIds, getMatchedUserIds } = require("./rooms");
+const { hasBlockBetweenAny } = require("./blocks");
+
+const MAX_GROUP_NAME_LENGTH = 80;
+// Members per group, including the creator
+const MAX_GROUP_MEMBERS = 20;
+
+const FORBIDDEN = {
+  error: {
+    code: "GROUP_FORBIDDEN",
+    message: "You're not a member of this group.",
+  },
+};
+
+// Checks a group name from a client
+// @returns The trimmed name, or null if it's empty or too long
+function normalizeGroupName(name) {
+  if (typeof name !== "string") return null;
+  const trimmed = name.trim();
+  return trimmed && trimmed.length <= MAX_GROUP_NAME_LENGTH ? trimmed : null;
+}
+
+function invalidGroup(message) {
+  return { error: { code: "INVALID_GROUP", message } };
+}
+
+/**
+ * Loads groups with their members' names and avatars, in socket payload
+ * form: { id, roomId, name, createdBy, createdAt, members: [{ userId,
+ * name, avatarUrl }] }.
+ * @throws If a query fails.
+ */
+async function loadGroups(groupIds) {
+  if (groupIds.length === 0) return [];
+  const { data: groups, error } = await supabaseAdmin
+    .from("chat_groups")
+    .select("id, name, created_by, created_at, chat_group_members(user_id)")
+    .in("id", groupIds)
+    .order("created_at", { ascending: true });
+  if (error) {
+    throw new Error(`Database error loading groups: ${error.message}`);
+  }
+
+  // Members needn't be matched with each other, so profiles come from here
+  const memberIds = [
+    ...new Set(
+      groups.flatMap((g) => g.chat_group_members.map((m) => m.user_id))
+    ),
+  ];
+  const { data: profiles, error: profilesError } = await supabaseAdmin
+    .from("students")
+    .select("user_id, name, avatar_url")
+    .in("user_id", memberIds);
+  if (profilesError) {
+    throw new Error(
+      `Database error loading member profiles: ${profilesError.message}`
+    );
+  }
+  const profileById = new Map(profiles.map((p) => [p.user_id, p]));
+
+  return groups.map((group) => ({
+    id: group.id,
+    roomId: groupRoomId(group.id),
+    name: group.name,
+    createdBy: group.created_by,
+    createdAt: group.created_at,
+    members: group.chat_group_members.map(({ user_id }) => ({
+      userId: user_id,
+      name: profileById.get(user_id)?.name || "Unnamed User",
+      avatarUrl: profileById.get(user_id)?.avatar_url ?? null,
+    })),
+  }));
+}
+
+async function loadGroup(groupId) {
+  const [group] = await loadGroups([groupId]);
+  return group ?? null;
+}
+
+/**
+ * Loads every group the user is a member of.
+ * @throws If a query fails.
+ */
+async function getUserGroups(userId) {
+  const { data, error } = await supabaseAdmin
+    .from("chat_group_members")
+    .select("group_id")
+    .eq("user_id", userId);
+  if (error) {
+    throw new Error(`Database error loading memberships: ${error.message}`);
+  }
+  return loadGroups(data.map((row) => row.group_id));
+}
+
+// Checks invitees: they must be the inviter's matches, aren't added twice,
+// and nobody in the group may have blocked anyone else in it
+// @returns The de-duplicated IDs, or { error }
+async function checkInvitees(userId, memberIds, currentMemberIds) {
+  if (!Array.isArray(memberIds) || memberIds.length === 0) {
+    return invalidGroup("Pick at least one match to add.");
+  }
+  const ids = [...new Set(memberIds.map(String))];
+  const matchIds = await getMatchedUserIds(userId);
+  if (ids.some((id) => !matchIds.includes(id))) {
+    return invalidGroup("You can only add your own matches.");
+  }
+  const newIds = ids.filter((id) => !currentMemberIds.includes(id));
+  if (currentMemberIds.length + newIds.length > MAX_GROUP_MEMBERS) {
+    return invalidGroup(
+      `Groups can have at most ${MAX_GROUP_MEMBERS} members.`
+    );
+  }
+  // Without saying who blocked whom (the blocked user is never told)
+  if (await hasBlockBetweenAny(newIds, [...currentMemberIds, ...newIds])) {
+    return invalidGroup(
+      "Some of these people can't be added to a group together."
+    );
+  }
+  return { ids: newIds };
+}
+
+// Adds members and starts their read position at "now", so the group's
+// earlier history doesn't show up as unread
+async function insertMembers(groupId, memberIds, addedBy) {
+  const now = new Date().toISOString();
+  const { error } = await supabaseAdmin.from("chat_group_members").insert(
+    memberIds.map((id) => ({
+      group_id: groupId,
+      user_id: id,
+      added_by: addedBy,
+      joined_at: now,
+    }))
+  );
+  if (error) {
+    throw new Error(`Database error adding members: ${error.message}`);
+  }
+
+  const { error: readError } = await supabaseAdmin
+    .from("chat_read_states")
+    .upsert(
+      memberIds.map((id) => ({
+        room_id: groupRoomId(groupId),
+        user_id: id,
+        last_read_at: now,
+        updated_at: now,
+      })),
+      { onConflict: "room_id,user_id", ignoreDuplicates: true }
+    );
+  if (readError) {
+    console.error("Failed to start read states:", readError.message);
+  }
+}
+
+/**
+ * Creates a group with the user and some of their matches as members.
+ * @returns { group } with the new group, or { error } with the chat error
+ *   code and text to send back.
+ * @throws If a query fails.
+ */
+async function createGroup({ userId, name, memberIds }) {
+  const groupName = normalizeGroupName(name);
+  if (!groupName) {
+    return invalidGroup(
+      `Group names need 1 to ${MAX_GROUP_NAME_LENGTH} characters.`
+    );
+  }
+  const invitees = await checkInvitees(userId, memberIds, [userId]);
+  if (invitees.error) return invitees;
+
+  const { data, error } = await supabaseAdmin
+    .from("chat_groups")
+    .insert({ name: groupName, created_by: userId })
+    .select("id")
+    .single();
+  if (error) {
+    throw new Error(`Database error creating group: ${error.message}`);
+  }
+  await insertMembers(data.id, [userId, ...invitees.ids], userId);
+  return { group: await loadGroup(data.id) };
+}
+
+/**
+ * Adds some of the user's matches to a group the user is in.
+ * See createGroup for the result.
+ */
+async function addGroupMembers({ groupId, userId, memberIds }) {
+  const currentIds = await getRoomMemberIds(groupRoomId(groupId));
+  if (!currentIds.includes(userId)) return FORBIDDEN;
+  const invitees = await checkInvitees(userId, memberIds, currentIds);
+  if (invitees.error) return invitees;
+
+  if (invitees.ids.length > 0) {
+    await insertMembers(groupId, invitees.ids, userId);
+  }
+  return { group: await loadGroup(groupId) };
+}
+
+/**
+ * Renames a group; any member may do this.
+ * See createGroup for the result.
+ */
+async function renameGroup({ groupId, userId, name }) {
+  const groupName = normalizeGroupName(name);
+  if (!groupName) {
+    return invalidGroup(
+      `Group names need 1 to ${MAX_GROUP_NAME_LENGTH} characters.`
+    );
+  }
+  const currentIds = await getRoomMemberIds(groupRoomId(groupId));
+  if (!currentIds.includes(userId)) return FORBIDDEN;
+
+  const { error } = await supabaseAdmin
+    .from("chat_groups")
+    .update({ name: groupName })
+    .eq("id", groupId);
+  if (error) {
+    throw new Error(`Database error renaming group: ${error.message}`);
+  }
+  return { group: await loadGroup(groupId) };
+}
+
+/**
+ * Removes the user from a group. The group and its history stay for the
+ * remaining members.
+ * @returns { group } with the group as it is now, or { error }.
+ * @throws If a query fails.
+ */
+async function leaveGroup({ groupId, userId }) {
+  const { data, error } = await supabaseAdmin
+    .from("chat_group_members")
+    .delete()
+    .eq("group_id", groupId)
+    .eq("user_id", userId)
+    .select("user_id");
+  if (error) {
+    throw new Error(`Database error leaving group: ${error.message}`);
+  }
+  if (data.length === 0) return FORBIDDEN;
+  return { group: await loadGroup(groupId) };
+}
+
+module.exports = {
+  getUserGroups,
+  createGroup,
+  addGroupMembers,
+  renameGroup,
+  leaveGroup,
+};
@@ -0,0 +1,317 @@
+// server/messages.js
+const { supabaseAdmin } = require("./supabaseAdmin");
+const { removeAttachment } = require("./attachments");
+const { SESSION_COLUMNS, toSocketSession } = require("./sessions");
+
+// Columns selected whenever a message is sent to clients, incl. the message
+// it replies to (embedded through reply_to_id) and the study session it
+// proposes (through study_session_id)
+const MESSAGE_COLUMNS =
+  "id, room_id, sender_id, message_text, attachment, created_at, edited_at, " +
+  "deleted_at, " +
+  "reply_to:reply_to_id(id, sender_id, message_text, deleted_at), " +
+  `study_session:study_session_id(${SESSION_COLUMNS})`;
+
+// How long after sending a message its sender may still edit or delete it
+// (shared with the chat page, hence the NEXT_PUBLIC_ prefix)
+const EDIT_WINDOW_MINUTES =
+  Number(process.env.NEXT_PUBLIC_CHAT_EDIT_WINDOW_MINUTES) || 15;
+
+// Longest message text accepted, in characters (also shared with the chat
+// page, which limits the composer to it)
+const MAX_MESSAGE_LENGTH =
+  Number(process.env.NEXT_PUBLIC_CHAT_MAX_MESSAGE_LENGTH) || 4000;
+
+// Maps a chat_messages row to the payload clients receive over the socket
+function toSocketMessage(row) {
+  return {
+    id: row.id,
+    text: row.message_text,
+    attachment: row.attachment,
+    roomId: row.room_id,
+    senderId: row.sender_id,
+    createdAt: row.created_at,
+    editedAt: row.edited_at,
+    deletedAt: row.deleted_at,
+    replyTo: row.reply_to
+      ? {
+          id: row.reply_to.id,
+          senderId: row.reply_to.sender_id,
+          text: row.reply_to.message_text,
+          deletedAt: row.reply_to.deleted_at,
+        }
+      : null,
+    session: row.study_session ? toSocketSession(row.study_session) : null,
+  };
+}
+
+/**
+ * Checks that a message exists in the given room (e.g. before replying to it).
+ * @throws If the query fails.
+ */
+async function isMessageInRoom(messageId, roomId) {
+  const { data, error } = await supabaseAdmin
+    .from("chat_messages")
+    .select("id")
+    .eq("id", messageId)
+    .eq("room_id", roomId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Database error finding message: ${error.message}`);
+  }
+  return !!data;
+}
+
+/**
+ * Inserts a message into chat_messages on behalf of the sender. If a
+ * message with the same clientId was already stored (a retry), that row is
+ * returned instead of inserting a duplicate.
+ * @returns The stored message in socket payload form, and whether it was a duplicate.
+ * @throws If the insert fails.
+ */
+async function saveMessage({
+  roomId,
+  senderId,
+  text,
+  clientId,
+  replyToId,
+  attachment,
+  studySessionId,
+}) {
+  const { data, error } = await supabaseAdmin
+    .from("chat_messages")
+    .insert({
+      room_id: roomId,
+      sender_id: senderId,
+      message_text: text,
+      client_id: clientId || null,
+      reply_to_id: replyToId || null,
+      attachment: attachment || null,
+      study_session_id: studySessionId || null,
+    })
+    .select(MESSAGE_COLUMNS)
+    .single();
+
+  if (error && error.code === "23505" && clientId) {
+    // 23505 is unique_violation: this clientId was already saved
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from("chat_messages")
+      .select(MESSAGE_COLUMNS)
+      .eq("sender_id", senderId)
+      .eq("client_id", clientId)
+      .single();
+    if (existingError) {
+      throw new Error(
+        `Database error loading existing message: ${existingError.message}`
+      );
+    }
+    return { message: toSocketMessage(existing), duplicate: true };
+  }
+  if (error) {
+    throw new Error(`Database error saving message: ${error.message}`);
+  }
+  return { message: toSocketMessage(data), duplicate: false };
+}
+
+// Messages replayed to a reconnecting client per room and request
+const MAX_REPLAY_MESSAGES = 500;
+
+/**
+ * Loads the messages in a room that came after the given one, oldest first,
+ * at most MAX_REPLAY_MESSAGES at a time. With no (or an unknown)
+ * lastMessageId, returns the latest messages instead.
+ * @returns { messages, hasMore } - hasMore if there are newer messages
+ *   still, to be asked for with the last returned message's ID.
+ */
+async function getMessagesSince(roomId, lastMessageId) {
+  let since = null;
+  if (lastMessageId) {
+    const { data: last, error: lastError } = await supabaseAdmin
+      .from("chat_messages")
+      .select("created_at")
+      .eq("id", lastMessageId)
+      .eq("room_id", roomId)
+      .maybeSingle();
+    if (lastError) {
+      throw new Error(`Database error finding message: ${lastError.message}`);
+    }
+    since = last?.created_at ?? null;
+  }
+
+  let query = supabaseAdmin
+    .from("chat_messages")
+    .select(MESSAGE_COLUMNS)
+    .eq("room_id", roomId);
+  if (!since) {
+    const { data, error } = await query
+      .order("created_at", { ascending: false })
+      .limit(MAX_REPLAY_MESSAGES);
+    if (error) {
+      throw new Error(`Database error loading messages: ${error.message}`);
+    }
+    return { messages: data.reverse().map(toSocketMessage), hasMore: false };
+  }
+
+  // Oldest first from the known message, so a long gap is filled in order
+  // (gte + skipping the known message so same-timestamp messages aren't lost)
+  const { data, error } = await query
+    .gte("created_at", since)
+    .neq("id", lastMessageId)
+    .order("created_at", { ascending: true })
+    .order("id", { ascending: true })
+    .limit(MAX_REPLAY_MESSAGES + 1); // One extra row tells us if there's more
+  if (error) {
+    throw new Error(`Database error loading messages: ${error.message}`);
+  }
+  return {
+    messages: data.slice(0, MAX_REPLAY_MESSAGES).map(toSocketMessage),
+    hasMore: data.length > MAX_REPLAY_MESSAGES,
+  };
+}
+
+/**
+ * Applies changes to a message in a room, provided the user sent it, it
+ * hasn't been deleted and it's still within the edit window.
+ * @returns { message, previous } with the updated message and the row as it
+ *   was before, or { error } with the chat error code and text to send back.
+ * @throws If a database query fails.
+ */
+async function updateOwnMessage({ roomId, messageId, userId, changes }) {
+  const { data: row, error } = await supabaseAdmin
+    .from("chat_messages")
+    .select("sender_id, created_at, deleted_at, attachment, study_session_id")
+    .eq("id", messageId)
+    .eq("room_id", roomId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Database error finding message: ${error.message}`);
+  }
+
+  if (!row || row.sender_id !== userId) {
+    return {
+      error: {
+        code: "MESSAGE_FORBIDDEN",
+        message: "You can only change your own messages.",
+      },
+    };
+  }
+  if (row.deleted_at) {
+    return {
+      error: {
+        code: "MESSAGE_FORBIDDEN",
+        message: "This message was deleted.",
+      },
+    };
+  }
+  // A study session proposal can be deleted, but its text isn't editable
+  if (row.study_session_id && !changes.deleted_at) {
+    return {
+      error: {
+        code: "MESSAGE_FORBIDDEN",
+        message: "Session proposals can't be edited.",
+      },
+    };
+  }
+  const age = Date.now() - new Date(row.created_at).getTime();
+  if (age > EDIT_WINDOW_MINUTES * 60 * 1000) {
+    return {
+      error: {
+        code: "EDIT_WINDOW_EXPIRED",
+        message: `Messages can only be changed within ${EDIT_WINDOW_MINUTES} minutes of sending.`,
+      },
+    };
+  }
+
+  const { data, error: updateError } = await supabaseAdmin
+    .from("chat_messages")
+    .update(changes)
+    .eq("id", messageId)
+    .select(MESSAGE_COLUMNS)
+    .single();
+  if (updateError) {
+    throw new Error(`Database error updating message: ${updateError.message}`);
+  }
+  return { message: toSocketMessage(data), previous: row };
+}
+
+/**
+ * Replaces the text of the user's own message and marks it as edited.
+ * See updateOwnMessage for the result.
+ */
+function editMessage({ roomId, messageId, userId, text }) {
+  return updateOwnMessage({
+    roomId,
+    messageId,
+    userId,
+    changes: { message_text: text, edited_at: new Date().toISOString() },
+  });
+}
+
+/**
+ * Soft-deletes the user's own message: the row stays (so read receipts
+ * and the history keep their place) but its text and attachment are
+ * cleared, and the attached file is removed from storage.
+ * See updateOwnMessage for the result.
+ */
+async function deleteMessage({ roomId, messageId, userId }) {
+  const result = await updateOwnMessage({
+    roomId,
+    messageId,
+    userId,
+    changes: {
+      message_text: "",
+      attachment: null,
+      deleted_at: new Date().toISOString(),
+    },
+  });
+  if (result.previous?.attachment?.path) {
+    await removeAttachment(result.previous.attachment.path);
+  }
+  return result;
+}
+
+/**
+ * Soft-deletes any message, like deleteMessage but without the sender and
+ * time checks (content removed by a moderator).
+ * @returns The deleted message, or null if it was already deleted or gone.
+ * @throws If a database query fails.
+ */
+async function removeMessage(messageId) {
+  const { data: row, error } = await supabaseAdmin
+    .from("chat_messages")
+    .select("deleted_at, attachment")
+    .eq("id", messageId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Database error finding message: ${error.message}`);
+  }
+  if (!row || row.deleted_at) return null;
+
+  const { data, error: updateError } = await supabaseAdmin
+    .from("chat_messages")
+    .update({
+      message_text: "",
+      attachment: null,
+      deleted_at: new Date().toISOString(),
+    })
+    .eq("id", messageId)
+    .select(MESSAGE_COLUMNS)
+    .single();
+  if (updateError) {
+    throw new Error(`Database error removing message: ${updateError.message}`);
+  }
+  if (row.attachment?.path) await removeAttachment(row.attachment.path);
+  return toSocketMessage(data);
+}
+
+module.exports = {
+  MAX_MESSAGE_LENGTH,
+  MESSAGE_COLUMNS,
+  toSocketMessage,
+  isMessageInRoom,
+  saveMessage,
+  getMessagesSince,
+  editMessage,
+  deleteMessage,
+  removeMessage,
+};
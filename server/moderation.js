@@ -0,0 +1,495 @@
+// server/moderation.js
+const { supabaseAdmin } = require("./supabaseAdmin");
+const { removeMessage } = require("./messages");
+
+const REPORT_REASONS = ["harassment", "spam", "inappropriate", "other"];
+const MODERATION_ACTIONS = ["dismiss", "warn", "remove_content", "suspend"];
+const MAX_DETAILS_LENGTH = 1000;
+const MAX_NOTE_LENGTH = 1000;
+// Messages before the reported one kept in its snapshot, so moderators see
+// what it was replying to
+const CONTEXT_MESSAGES = 5;
+const MAX_OPEN_REPORTS = 100;
+// Public bucket the profile page uploads photos to
+const AVATAR_BUCKET = "avatars";
+
+function invalidReport(message) {
+  return { error: { code: "INVALID_REPORT", message } };
+}
+
+/**
+ * Checks whether the user is a moderator.
+ * @returns False on error, so a failed lookup never grants access.
+ */
+async function isModerator(userId) {
+  const { data, error } = await supabaseAdmin
+    .from("moderators")
+    .select("user_id")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) {
+    console.error("Moderator lookup error:", error.message);
+    return false;
+  }
+  return !!data;
+}
+
+/**
+ * Checks whether the user's account is suspended.
+ * @throws If the query fails.
+ */
+async function isSuspended(userId) {
+  const { data, error } = await supabaseAdmin
+    .from("user_suspensions")
+    .select("user_id")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Database error checking suspension: ${error.message}`);
+  }
+  return !!data;
+}
+
+// Snapshot of a message and the few before it, as they are right now
+// @returns { reportedUserId, snapshot }, or null if the message is gone
+async function snapshotMessage(messageId, roomId) {
+  const { data: message, error } = await supabaseAdmin
+    .from("chat_messages")
+    .select("id, sender_id, message_text, attachment, created_at, deleted_at")
+    .eq("id", messageId)
+    .eq("room_id", roomId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Database error loading message: ${error.message}`);
+  }
+  if (!message || message.deleted_at) return null;
+
+  const { data: before, error: contextError } = await supabaseAdmin
+    .from("chat_messages")
+    .select("sender_id, message_text, created_at")
+    .eq("room_id", roomId)
+    .is("deleted_at", null)
+    .lt("created_at", message.created_at)
+    .order("created_at", { ascending: false })
+    .limit(CONTEXT_MESSAGES);
+  if (contextError) {
+    throw new Error(`Database error loading context: ${contextError.message}`);
+  }
+
+  return {
+    reportedUserId: message.sender_id,
+    snapshot: {
+      message: {
+        text: message.message_text,
+        attachment: message.attachment,
+        createdAt: message.created_at,
+      },
+      context: before.reverse().map((m) => ({
+        senderId: m.sender_id,
+        text: m.message_text,
+        createdAt: m.created_at,
+      })),
+    },
+  };
+}
+
+// Snapshot of a student's profile, or null if there's none
+async function snapshotProfile(userId) {
+  const { data, error } = await supabaseAdmin
+    .from("students")
+    .select("name, field_of_study, year_of_study, avatar_url")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Database error loading profile: ${error.message}`);
+  }
+  if (!data) return null;
+  return {
+    profile: {
+      name: data.name,
+      fieldOfStudy: data.field_of_study,
+      yearOfStudy: data.year_of_study,
+      avatarUrl: data.avatar_url,
+    },
+  };
+}
+
+/**
+ * Files a report against a message (messageId and roomId; the caller must
+ * have checked the user is in the room) or a profile (userId). The content
+ * is snapshotted here, never taken from the client.
+ * @returns { reportId }, or { error } with the chat error code and text.
+ * @throws If a query fails.
+ */
+async function createReport({
+  userId,
+  messageId,
+  roomId,
+  reportedUserId,
+  reason,
+  details = "",
+}) {
+  if (!REPORT_REASONS.includes(reason)) {
+    return invalidReport("Pick a reason for your report.");
+  }
+  if (typeof details !== "string" || details.length > MAX_DETAILS_LENGTH) {
+    return invalidReport(
+      `Details can be at most ${MAX_DETAILS_LENGTH} characters.`
+    );
+  }
+
+  let target;
+  if (messageId) {
+    target = await snapshotMessage(messageId, roomId);
+    if (!target) return invalidReport("This message no longer exists.");
+  } else {
+    const snapshot = await snapshotProfile(reportedUserId);
+    if (!snapshot) return invalidReport("This profile no longer exists.");
+    target = { reportedUserId, snapshot };
+  }
+  if (target.reportedUserId === userId) {
+    return invalidReport("You can't report yourself.");
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("reports")
+    .insert({
+      reporter_user_id: userId,
+      reported_user_id: target.reportedUserId,
+      message_id: messageId || null,
+      room_id: messageId ? roomId : null,
+      reason,
+      details: details.trim(),
+      snapshot: target.snapshot,
+    })
+    .select("id")
+    .single();
+  if (error) {
+    throw new Error(`Database error saving report: ${error.message}`);
+  }
+  return { reportId: data.id };
+}
+
+// Report reasons for the chat filter's rules (see server/filter.js)
+const FILTER_RULE_REASONS = {
+  words: "inappropriate",
+  links: "spam",
+  flood: "spam",
+};
+const FILTER_RULE_NAMES = {
+  words: "offensive words",
+  links: "too many links",
+  flood: "repeated message",
+};
+
+/**
+ * Files a report for a message the chat filter flagged, with no reporter.
+ * @throws If a query fails.
+ */
+async function flagMessage({ messageId, roomId, rules }) {
+  const target = await snapshotMessage(messageId, roomId);
+  if (!target) return;
+  const { error } = await supabaseAdmin.from("reports").insert({
+    reporter_user_id: null,
+    reported_user_id: target.reportedUserId,
+    message_id: messageId,
+    room_id: roomId,
+    reason: FILTER_RULE_REASONS[rules[0]] || "other",
+    details: `Flagged automatically: ${rules
+      .map((rule) => FILTER_RULE_NAMES[rule] || rule)
+      .join(", ")}.`,
+    snapshot: target.snapshot,
+  });
+  if (error) {
+    throw new Error(`Database error flagging message: ${error.message}`);
+  }
+}
+
+/**
+ * Loads the open reports, oldest first, in socket payload form: { id,
+ * reason, details, createdAt, messageId, roomId, snapshot, reporter (userId
+ * null for the chat filter),
+ * reportedUser: { userId, name, avatarUrl, suspended, priorActions } }.
+ * Names of the people in a message's context are added to its snapshot.
+ * @throws If a query fails.
+ */
+async function getOpenReports() {
+  const { data: reports, error } = await supabaseAdmin
+    .from("reports")
+    .select(
+      "id, reporter_user_id, reported_user_id, message_id, room_id, reason, details, snapshot, created_at"
+    )
+    .eq("status", "open")
+    .order("created_at", { ascending: true })
+    .limit(MAX_OPEN_REPORTS);
+  if (error) {
+    throw new Error(`Database error loading reports: ${error.message}`);
+  }
+  if (reports.length === 0) return [];
+
+  const reportedIds = [...new Set(reports.map((r) => r.reported_user_id))];
+  const userIds = [
+    ...new Set(
+      reports.flatMap((r) => [
+        ...(r.reporter_user_id ? [r.reporter_user_id] : []),
+        r.reported_user_id,
+        ...(r.snapshot.context || []).map((m) => m.senderId),
+      ])
+    ),
+  ];
+  const [profiles, suspensions, actions] = await Promise.all([
+    supabaseAdmin
+      .from("students")
+      .select("user_id, name, avatar_url")
+      .in("user_id", userIds),
+    supabaseAdmin
+      .from("user_suspensions")
+      .select("user_id")
+      .in("user_id", reportedIds),
+    supabaseAdmin
+      .from("moderation_actions")
+      .select("target_user_id")
+      .in("target_user_id", reportedIds)
+      .neq("action", "dismiss"),
+  ]);
+  const failed = [profiles, suspensions, actions].find((r) => r.error);
+  if (failed) {
+    throw new Error(
+      `Database error loading report context: ${failed.error.message}`
+    );
+  }
+
+  const profileById = new Map(profiles.data.map((p) => [p.user_id, p]));
+  const nameOf = (id) => profileById.get(id)?.name || "Unnamed User";
+  const suspendedIds = new Set(suspensions.data.map((s) => s.user_id));
+  const actionCounts = new Map();
+  for (const { target_user_id } of actions.data) {
+    actionCounts.set(
+      target_user_id,
+      (actionCounts.get(target_user_id) || 0) + 1
+    );
+  }
+
+  return reports.map((report) => ({
+    id: report.id,
+    reason: report.reason,
+    details: report.details,
+    createdAt: report.created_at,
+    messageId: report.message_id,
+    roomId: report.room_id,
+    snapshot: report.snapshot.context
+      ? {
+          ...report.snapshot,
+          context: report.snapshot.context.map((m) => ({
+            ...m,
+            senderName: nameOf(m.senderId),
+          })),
+        }
+      : report.snapshot,
+    reporter: report.reporter_user_id
+      ? {
+          userId: report.reporter_user_id,
+          name: nameOf(report.reporter_user_id),
+        }
+      : { userId: null, name: "The chat filter" },
+    reportedUser: {
+      userId: report.reported_user_id,
+      name: nameOf(report.reported_user_id),
+      avatarUrl: profileById.get(report.reported_user_id)?.avatar_url ?? null,
+      suspended: suspendedIds.has(report.reported_user_id),
+      priorActions: actionCounts.get(report.reported_user_id) || 0, // Warnings, removals, suspensions
+    },
+  }));
+}
+
+// Clears a user's profile photo and deletes the file from storage. A file
+// that can't be deleted is only logged - the photo is no longer shown.
+async function removeProfilePhoto(userId) {
+  const { data: profile, error: profileError } = await supabaseAdmin
+    .from("students")
+    .select("avatar_url")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (profileError) {
+    throw new Error(`Database error finding photo: ${profileError.message}`);
+  }
+  const { error } = await supabaseAdmin
+    .from("students")
+    .update({ avatar_url: null })
+    .eq("user_id", userId);
+  if (error) {
+    throw new Error(`Database error removing photo: ${error.message}`);
+  }
+
+  // Public URLs end in /avatars/<path>, possibly with a query string
+  const url = profile?.avatar_url;
+  const path = url?.split(`/${AVATAR_BUCKET}/`)[1]?.split("?")[0];
+  if (!path) {
+    if (url) console.warn(`Could not find the stored photo for ${url}`);
+    return;
+  }
+  const { error: removeError } = await supabaseAdmin.storage
+    .from(AVATAR_BUCKET)
+    .remove([decodeURIComponent(path)]);
+  if (removeError) {
+    console.error(`Failed to remove photo ${path}:`, removeError.message);
+  }
+}
+
+// Carries out a moderation action on a report's target (see resolveReport)
+async function applyAction(action, report, moderatorId, note) {
+  const targetUserId = report.reported_user_id;
+  const result = { targetUserId };
+
+  if (action === "remove_content") {
+    if (report.message_id) {
+      result.removedMessage = await removeMessage(report.message_id);
+    } else {
+      await removeProfilePhoto(targetUserId);
+    }
+  } else if (action === "suspend") {
+    const { error } = await supabaseAdmin
+      .from("user_suspensions")
+      .upsert(
+        { user_id: targetUserId, suspended_by: moderatorId, reason: note },
+        { onConflict: "user_id", ignoreDuplicates: true }
+      );
+    if (error) {
+      throw new Error(`Database error suspending user: ${error.message}`);
+    }
+    result.suspended = true;
+  }
+  return result;
+}
+
+/**
+ * Handles an open report with one moderator action and records it:
+ * - dismiss: nothing is wrong, the report is closed
+ * - warn: the reported user is shown the note until they acknowledge it
+ * - remove_content: the message is deleted, or the profile photo removed
+ *   (and its file deleted from storage)
+ * - suspend: the account can no longer use chat
+ * @returns { targetUserId, warning?, removedMessage?, suspended? } for the
+ *   caller to tell the affected clients, or { error }.
+ * @throws If a query fails.
+ */
+async function resolveReport({ moderatorId, reportId, action, note = "" }) {
+  if (!MODERATION_ACTIONS.includes(action)) {
+    return invalidReport("Unknown moderation action.");
+  }
+  if (typeof note !== "string" || note.length > MAX_NOTE_LENGTH) {
+    return invalidReport(`Notes can be at most ${MAX_NOTE_LENGTH} characters.`);
+  }
+
+  // Claim the report first, so two moderators can't both act on it
+  const resolvedAt = new Date().toISOString();
+  const { data: report, error } = await supabaseAdmin
+    .from("reports")
+    .update({
+      status: action === "dismiss" ? "dismissed" : "actioned",
+      resolved_at: resolvedAt,
+      resolved_by: moderatorId,
+    })
+    .eq("id", reportId)
+    .eq("status", "open")
+    .select("id, reported_user_id, message_id, reason")
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Database error resolving report: ${error.message}`);
+  }
+  if (!report) {
+    return {
+      error: {
+        code: "REPORT_CLOSED",
+        message: "This report was already handled.",
+      },
+    };
+  }
+  const targetUserId = report.reported_user_id;
+  let result;
+  try {
+    result = await applyAction(action, report, moderatorId, note.trim());
+  } catch (err) {
+    // Put it back in the queue, nothing was done
+    await supabaseAdmin
+      .from("reports")
+      .update({ status: "open", resolved_at: null, resolved_by: null })
+      .eq("id", report.id);
+    throw err;
+  }
+
+  const { data: logged, error: logError } = await supabaseAdmin
+    .from("moderation_actions")
+    .insert({
+      report_id: report.id,
+      moderator_user_id: moderatorId,
+      target_user_id: targetUserId,
+      action,
+      note: note.trim(),
+    })
+    .select("id, note, created_at")
+    .single();
+  if (logError) {
+    throw new Error(`Database error recording action: ${logError.message}`);
+  }
+  if (action === "warn") {
+    result.warning = {
+      id: logged.id,
+      reason: report.reason,
+      note: logged.note,
+      createdAt: logged.created_at,
+    };
+  }
+  return result;
+}
+
+/**
+ * Loads the warnings the user hasn't acknowledged yet, oldest first, in
+ * socket payload form: { id, reason, note, createdAt }.
+ * @throws If the query fails.
+ */
+async function getPendingWarnings(userId) {
+  const { data, error } = await supabaseAdmin
+    .from("moderation_actions")
+    .select("id, note, created_at, reports(reason)")
+    .eq("target_user_id", userId)
+    .eq("action", "warn")
+    .is("acknowledged_at", null)
+    .order("created_at", { ascending: true });
+  if (error) {
+    throw new Error(`Database error loading warnings: ${error.message}`);
+  }
+  return data.map((row) => ({
+    id: row.id,
+    reason: row.reports?.reason ?? "other",
+    note: row.note,
+    createdAt: row.created_at,
+  }));
+}
+
+/**
+ * Marks one of the user's warnings as seen.
+ * @throws If the query fails.
+ */
+async function acknowledgeWarning(userId, warningId) {
+  const { error } = await supabaseAdmin
+    .from("moderation_actions")
+    .update({ acknowledged_at: new Date().toISOString() })
+    .eq("id", warningId)
+    .eq("target_user_id", userId)
+    .eq("action", "warn");
+  if (error) {
+    throw new Error(`Database error acknowledging warning: ${error.message}`);
+  }
+}
+
+module.exports = {
+  isModerator,
+  isSuspended,
+  createReport,
+  flagMessage,
+  getOpenReports,
+  resolveReport,
+  getPendingWarnings,
+  acknowledgeWarning,
+};
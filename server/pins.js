@@ -0,0 +1,122 @@
+// server/pins.js
+const { supabaseAdmin } = require("./supabaseAdmin");
+
+// Most messages a conversation can have pinned at once
+const MAX_PINNED_MESSAGES = Number(process.env.CHAT_MAX_PINNED_MESSAGES) || 10;
+
+/**
+ * Loads a room's pinned messages, newest pin first, in socket payload form:
+ * { message: { id, senderId, text, deletedAt }, pinnedBy, pinnedAt }.
+ * @throws If the query fails.
+ */
+async function getPins(roomId) {
+  const { data, error } = await supabaseAdmin
+    .from("chat_pinned_messages")
+    .select(
+      "pinned_by, pinned_at, message:message_id(id, sender_id, message_text, deleted_at)"
+    )
+    .eq("room_id", roomId)
+    .order("pinned_at", { ascending: false });
+  if (error) {
+    throw new Error(`Database error loading pins: ${error.message}`);
+  }
+  return data
+    .filter((pin) => pin.message)
+    .map((pin) => ({
+      message: {
+        id: pin.message.id,
+        senderId: pin.message.sender_id,
+        text: pin.message.message_text,
+        deletedAt: pin.message.deleted_at,
+      },
+      pinnedBy: pin.pinned_by,
+      pinnedAt: pin.pinned_at,
+    }));
+}
+
+/**
+ * Pins a message of a room for everyone in it. Pinning an already pinned
+ * message changes nothing.
+ * @returns { pins } with the room's pins afterwards, or { error } with the
+ *   chat error code and text to send back.
+ * @throws If a database query fails.
+ */
+async function pinMessage({ roomId, messageId, userId }) {
+  const { data: message, error: messageError } = await supabaseAdmin
+    .from("chat_messages")
+    .select("deleted_at")
+    .eq("id", messageId)
+    .eq("room_id", roomId)
+    .maybeSingle();
+  if (messageError) {
+    throw new Error(`Database error finding message: ${messageError.message}`);
+  }
+  if (!message || message.deleted_at) {
+    return {
+      error: {
+        code: "INVALID_MESSAGE",
+        message: "You can't pin this message.",
+      },
+    };
+  }
+
+  const pins = await getPins(roomId);
+  if (pins.some((pin) => pin.message.id === messageId)) return { pins };
+  if (pins.length >= MAX_PINNED_MESSAGES) {
+    return {
+      error: {
+        code: "PIN_LIMIT_REACHED",
+        message: `A conversation can have at most ${MAX_PINNED_MESSAGES} pinned messages. Unpin one first.`,
+      },
+    };
+  }
+
+  const { error } = await supabaseAdmin.from("chat_pinned_messages").upsert(
+    {
+      message_id: messageId,
+      room_id: roomId,
+      pinned_by: userId,
+    },
+    { onConflict: "message_id", ignoreDuplicates: true }
+  );
+  if (error) {
+    throw new Error(`Database error pinning message: ${error.message}`);
+  }
+  return { pins: await getPins(roomId) };
+}
+
+/**
+ * Unpins a message of a room (any member may unpin any pin).
+ * @returns True if the message was pinned.
+ * @throws If the query fails.
+ */
+async function unpinMessage(roomId, messageId) {
+  const { data, error } = await supabaseAdmin
+    .from("chat_pinned_messages")
+    .delete()
+    .eq("message_id", messageId)
+    .eq("room_id", roomId)
+    .select("message_id");
+  if (error) {
+    throw new Error(`Database error unpinning message: ${error.message}`);
+  }
+  return data.length > 0;
+}
+
+/**
+ * Checks whether a message is pinned (e.g. before telling the room about an
+ * edit to it).
+ * @throws If the query fails.
+ */
+async function isPinned(messageId) {
+  const { count, error } = await supabaseAdmin
+    .from("chat_pinned_messages")
+    .select("message_id", { count: "exact", head: true })
+    .eq("message_id", messageId);
+  if (error) {
+    throw new Error(`Database error checking pin: ${error.message}`);
+  }
+  return count > 0;
+}
+
+module.exports = { getPins, pinMessage, unpinMessage, isPinned };
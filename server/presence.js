@@ -0,0 +1,132 @@
+// server/presence.js
+const { supabaseAdmin } = require("./supabaseAdmin");
+const { getMatchedUserIds } = require("./rooms");
+
+// Verified users and their open sockets (one per tab): Map<userId, Set<socketId>>
+const userSocketMap = new Map();
+
+// Every socket also joins a personal room so we can reach all of a user's tabs
+function userRoom(userId) {
+  return `user:${userId}`;
+}
+
+function isOnline(userId) {
+  return userSocketMap.has(userId);
+}
+
+/**
+ * Registers a socket for the user.
+ * @returns True if this is the user's first open socket (they just came online).
+ */
+function addUserSocket(userId, socketId) {
+  let sockets = userSocketMap.get(userId);
+  if (!sockets) {
+    sockets = new Set();
+    userSocketMap.set(userId, sockets);
+  }
+  sockets.add(socketId);
+  return sockets.size === 1;
+}
+
+/**
+ * Unregisters a socket for the user.
+ * @returns True if it was the user's last open socket (they just went offline).
+ */
+function removeUserSocket(userId, socketId) {
+  const sockets = userSocketMap.get(userId);
+  if (!sockets) return false;
+  sockets.delete(socketId);
+  if (sockets.size > 0) return false;
+  userSocketMap.delete(userId);
+  return true;
+}
+
+// Persist the last-seen time so it survives server restarts
+async function saveLastSeen(userId, lastSeen) {
+  const { error } = await supabaseAdmin
+    .from("students")
+    .update({ last_seen_at: lastSeen })
+    .eq("user_id", userId);
+  if (error) {
+    console.error(`Failed to save last seen for ${userId}:`, error.message);
+  }
+}
+
+// Tell the user's matches (and nobody else) that their status changed
+async function broadcastPresence(io, userId, online, lastSeen) {
+  const matchIds = await getMatchedUserIds(userId);
+  if (matchIds.length === 0) return;
+  io.to(matchIds.map(userRoom)).emit("presence:update", {
+    userId,
+    online,
+    lastSeen,
+  });
+}
+
+/**
+ * Sends the current status of all of the user's matches to one socket.
+ */
+async function sendPresenceSnapshot(socket, userId) {
+  const matchIds = await getMatchedUserIds(userId);
+  if (matchIds.length === 0) {
+    socket.emit("presence:snapshot", []);
+    return;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("students")
+    .select("user_id, last_seen_at")
+    .in("user_id", matchIds);
+  if (error) {
+    console.error("Failed to load last seen times:", error.message);
+  }
+  const lastSeenById = new Map(
+    (data || []).map((row) => [row.user_id, row.last_seen_at])
+  );
+
+  socket.emit(
+    "presence:snapshot",
+    matchIds.map((id) => ({
+      userId: id,
+      online: isOnline(id),
+      lastSeen: lastSeenById.get(id) ?? null,
+    }))
+  );
+}
+
+/**
+ * Wires presence tracking for a newly connected, authenticated socket.
+ */
+async function trackPresence(io, socket) {
+  const userId = socket.data.userId;
+  socket.join(userRoom(userId));
+
+  if (addUserSocket(userId, socket.id)) {
+    console.log(`User ${userId} is online`);
+    await saveLastSeen(userId, new Date().toISOString());
+    await broadcastPresence(io, userId, true, null);
+  }
+  await sendPresenceSnapshot(socket, userId);
+}
+
+/**
+ * Updates presence after a socket disconnects. Only the user's last
+ * socket (e.g. closing the final tab) marks them offline.
+ */
+async function untrackPresence(io, socket) {
+  const userId = socket.data.userId;
+  if (!removeUserSocket(userId, socket.id)) return;
+
+  console.log(`User ${userId} is offline`);
+  const lastSeen = new Date().toISOString();
+  await saveLastSeen(userId, lastSeen);
+  await broadcastPresence(io, userId, false, lastSeen);
+}
+
+module.exports = {
+  userRoom,
+  isOnline,
+  trackPresence,
+  untrackPresence,
+  sendPresenceSnapshot,
+};
@@ -0,0 +1,207 @@
+// server/rate-limit.js
+// Token-bucket rate limits for socket events, per user (shared by all their
+// tabs) and per kind of event, plus a payload size limit. Each kind's bucket
+// is set through environment variables:
+//   CHAT_RATE_<KIND>_PER_MINUTE  sustained rate: tokens added per minute
+//   CHAT_RATE_<KIND>_BURST       bucket size: how many may arrive at once
+// e.g. CHAT_RATE_MESSAGES_PER_MINUTE=30 (kinds and defaults in EVENT_KINDS).
+// Users who keep going after being refused are disconnected for a while:
+//   CHAT_RATE_MAX_VIOLATIONS     refused events allowed per minute (default 20)
+//   CHAT_RATE_COOLDOWN_SECONDS   how long they can't reconnect (default 60)
+//   CHAT_MAX_PAYLOAD_BYTES       largest event payload (default 32768)
+const { userRoom } = require("./presence");
+
+const readNumber = (name, fallback) => Number(process.env[name]) || fallback;
+
+// Events by kind; anything not listed counts as "other"
+const EVENT_KINDS = {
+  messages: {
+    events: [
+      "sendMessage",
+      "message:edit",
+      "message:delete",
+      "message:pin",
+      "session:propose",
+      "session:respond",
+    ],
+    perMinute: 30,
+    burst: 10,
+  },
+  reactions: { events: ["reaction:toggle"], perMinute: 60, burst: 15 },
+  rooms: {
+    events: ["joinRoom", "leaveRoom", "sync:missed", "presence:get"],
+    perMinute: 60,
+    burst: 20,
+  },
+  // Sent by the client on its own while the user types or scrolls
+  activity: {
+    events: ["typing:start", "typing:stop", "read:mark"],
+    perMinute: 120,
+    burst: 30,
+  },
+  search: { events: ["search:messages"], perMinute: 20, burst: 5 },
+  other: { events: [], perMinute: 30, burst: 10 },
+};
+
+const limits = Object.fromEntries(
+  Object.entries(EVENT_KINDS).map(([kind, defaults]) => {
+    const prefix = `CHAT_RATE_${kind.toUpperCase()}`;
+    return [
+      kind,
+      {
+        perMs: readNumber(`${prefix}_PER_MINUTE`, defaults.perMinute) / 60000,
+        burst: readNumber(`${prefix}_BURST`, defaults.burst),
+      },
+    ];
+  })
+);
+
+const kindOfEvent = new Map(
+  Object.entries(EVENT_KINDS).flatMap(([kind, { events }]) =>
+    events.map((event) => [event, kind])
+  )
+);
+
+const MAX_VIOLATIONS = readNumber("CHAT_RATE_MAX_VIOLATIONS", 20);
+const VIOLATION_WINDOW_MS = 60 * 1000;
+const COOLDOWN_MS = readNumber("CHAT_RATE_COOLDOWN_SECONDS", 60) * 1000;
+const MAX_PAYLOAD_BYTES = readNumber("CHAT_MAX_PAYLOAD_BYTES", 32 * 1024);
+
+// Token buckets: Map<`${userId}:${kind}`, { tokens, updatedAt }>
+const buckets = new Map();
+// Times of each user's recent refused events: Map<userId, number[]>
+const violations = new Map();
+// Users disconnected for flooding: Map<userId, cooldown end timestamp>
+const cooldowns = new Map();
+
+/**
+ * Takes a token from the user's bucket for a kind of event.
+ * @returns 0 if the event may go ahead, otherwise the ms until it may.
+ */
+function takeToken(userId, kind) {
+  const { perMs, burst } = limits[kind];
+  const key = `${userId}:${kind}`;
+  const now = Date.now();
+  const bucket = buckets.get(key) || { tokens: burst, updatedAt: now };
+  bucket.tokens = Math.min(
+    burst,
+    bucket.tokens + (now - bucket.updatedAt) * perMs
+  );
+  bucket.updatedAt = now;
+  buckets.set(key, bucket);
+  if (bucket.tokens >= 1) {
+    bucket.tokens -= 1;
+    return 0;
+  }
+  return Math.ceil((1 - bucket.tokens) / perMs);
+}
+
+// Records a refused event
+// @returns True if the user has now been refused too often
+function recordViolation(userId) {
+  const now = Date.now();
+  const recent = (violations.get(userId) || []).filter(
+    (at) => now - at < VIOLATION_WINDOW_MS
+  );
+  recent.push(now);
+  violations.set(userId, recent);
+  return recent.length > MAX_VIOLATIONS;
+}
+
+// Full buckets and old violations are the same as no entry
+setInterval(() => {
+  const now = Date.now();
+  for (const [key, bucket] of buckets) {
+    const kind = key.slice(key.lastIndexOf(":") + 1);
+    const { perMs, burst } = limits[kind];
+    if (bucket.tokens + (now - bucket.updatedAt) * perMs >= burst) {
+      buckets.delete(key);
+    }
+  }
+  for (const [userId, recent] of violations) {
+    if (recent.every((at) => now - at >= VIOLATION_WINDOW_MS)) {
+      violations.delete(userId);
+    }
+  }
+  for (const [userId, until] of cooldowns) {
+    if (until <= now) cooldowns.delete(userId);
+  }
+}, 60 * 1000).unref();
+
+// Size of an event's arguments as sent, without the ack callback
+function payloadBytes(args) {
+  const data = args.filter((arg) => typeof arg !== "function");
+  try {
+    return Buffer.byteLength(JSON.stringify(data));
+  } catch {
+    return Infinity; // Not serializable (e.g. circular) - refuse it
+  }
+}
+
+/**
+ * Socket.IO middleware, after authenticateSocket: refuses connections from
+ * users still cooling down after being disconnected for flooding, with
+ * "RateLimited" and { retryAfterMs } as the error data.
+ */
+function rejectRateLimited(socket, next) {
+  const until = cooldowns.get(socket.data.userId);
+  if (until && until > Date.now()) {
+    const error = new Error("RateLimited");
+    error.data = { retryAfterMs: until - Date.now() };
+    return next(error);
+  }
+  next();
+}
+
+/**
+ * Checks every incoming event of a socket against its user's limits. A
+ * refused event isn't handled: the client gets "rateLimited" with the
+ * reason, and its ack (if any) the same error code and message. Users
+ * refused too often are disconnected and can't reconnect for a while.
+ */
+function limitSocketEvents(socket) {
+  const userId = socket.data.userId;
+
+  socket.use(([event, ...args], next) => {
+    const ack = args[args.length - 1];
+    const refuse = (code, retryAfterMs, message) => {
+      console.warn(`Refused ${event} from ${userId} (${code})`);
+      socket.emit("rateLimited", { code, event, retryAfterMs, message });
+      if (typeof ack === "function") ack({ ok: false, code, message });
+      if (!recordViolation(userId)) return;
+
+      console.warn(`Disconnecting ${userId} for flooding`);
+      cooldowns.set(userId, Date.now() + COOLDOWN_MS);
+      violations.delete(userId);
+      const room = socket.nsp.to(userRoom(userId));
+      room.emit("rateLimited", {
+        code: "RATE_LIMITED",
+        event,
+        retryAfterMs: COOLDOWN_MS,
+        message: `You've been disconnected for sending too much, too fast. Chat will reconnect in ${Math.ceil(
+          COOLDOWN_MS / 1000
+        )} seconds.`,
+      });
+      socket.nsp.in(userRoom(userId)).disconnectSockets(true);
+    };
+
+    if (payloadBytes(args) > MAX_PAYLOAD_BYTES) {
+      return refuse(
+        "PAYLOAD_TOO_LARGE",
+        0,
+        "That was too much data to send at once."
+      );
+    }
+    const retryAfterMs = takeToken(userId, kindOfEvent.get(event) || "other");
+    if (retryAfterMs > 0) {
+      return refuse(
+        "RATE_LIMITED",
+        retryAfterMs,
+        "Slow down - you're sending too fast. Try again in a moment."
+      );
+    }
+    next();
+  });
+}
+
+module.exports = { MAX_PAYLOAD_BYTES, rejectRateLimited, limitSocketEvents };
@@ -0,0 +1,82 @@
+// server/reactions.js
+const { supabaseAdmin } = require("./supabaseAdmin");
+
+// Reactions offered by the chat page's picker (REACTION_EMOJIS in
+// app/dashboard/chat/page.tsx must list the same ones)
+const REACTION_EMOJIS = ["👍", "❤️", "😂", "😮", "😢", "🎉"];
+
+/**
+ * Sets, replaces or removes the user's reaction to a message in a room.
+ * Each user has at most one reaction per message; reacting again with the
+ * same emoji removes it.
+ * @returns { update } with the change to broadcast ({ roomId, messageId,
+ *   userId, emoji }, emoji null when removed), or { error } with the chat
+ *   error code and text to send back.
+ * @throws If a database query fails.
+ */
+async function toggleReaction({ roomId, messageId, userId, emoji }) {
+  if (!REACTION_EMOJIS.includes(emoji)) {
+    return {
+      error: { code: "INVALID_REACTION", message: "Unsupported reaction." },
+    };
+  }
+
+  const { data: message, error: messageError } = await supabaseAdmin
+    .from("chat_messages")
+    .select("deleted_at")
+    .eq("id", messageId)
+    .eq("room_id", roomId)
+    .maybeSingle();
+  if (messageError) {
+    throw new Error(`Database error finding message: ${messageError.message}`);
+  }
+  if (!message || message.deleted_at) {
+    return {
+      error: {
+        code: "INVALID_MESSAGE",
+        message: "You can't react to this message.",
+      },
+    };
+  }
+
+  const { data: existing, error: existingError } = await supabaseAdmin
+    .from("chat_message_reactions")
+    .select("emoji")
+    .eq("message_id", messageId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (existingError) {
+    throw new Error(
+      `Database error loading reaction: ${existingError.message}`
+    );
+  }
+
+  if (existing?.emoji === emoji) {
+    const { error } = await supabaseAdmin
+      .from("chat_message_reactions")
+      .delete()
+      .eq("message_id", messageId)
+      .eq("user_id", userId);
+    if (error) {
+      throw new Error(`Database error removing reaction: ${error.message}`);
+    }
+    return { update: { roomId, messageId, userId, emoji: null } };
+  }
+
+  const { error } = await supabaseAdmin.from("chat_message_reactions").upsert(
+    {
+      message_id: messageId,
+      user_id: userId,
+      room_id: roomId,
+      emoji,
+      created_at: new Date().toISOString(),
+    },
+    { onConflict: "message_id,user_id" }
+  );
+  if (error) {
+    throw new Error(`Database error saving reaction: ${error.message}`);
+  }
+  return { update: { roomId, messageId, userId, emoji } };
+}
+
+module.exports = { REACTION_EMOJIS, toggleReaction };
@@ -0,0 +1,89 @@
+// server/receipts.js
+const { supabaseAdmin } = require("./supabaseAdmin");
+
+// Maps a chat_read_states row to the payload clients receive over the socket
+function toSocketReadState(row) {
+  return {
+    roomId: row.room_id,
+    userId: row.user_id,
+    lastReadAt: row.last_read_at,
+    lastReadMessageId: row.last_read_message_id,
+  };
+}
+
+/**
+ * Loads the read positions of every member of a room.
+ */
+async function getReadStates(roomId) {
+  const { data, error } = await supabaseAdmin
+    .from("chat_read_states")
+    .select("room_id, user_id, last_read_at, last_read_message_id")
+    .eq("room_id", roomId);
+
+  if (error) {
+    console.error("Read state lookup error:", error.message);
+    return [];
+  }
+  return (data || []).map(toSocketReadState);
+}
+
+/**
+ * Moves the user's read position in a room forward to the given message.
+ * @returns The new read state, or null if the message is unknown or not
+ *   newer than what the user has already read.
+ */
+async function markRead({ roomId, userId, messageId }) {
+  const { data: message, error: messageError } = await supabaseAdmin
+    .from("chat_messages")
+    .select("id, created_at")
+    .eq("id", messageId)
+    .eq("room_id", roomId)
+    .maybeSingle();
+
+  if (messageError || !message) {
+    if (messageError) {
+      console.error("Read receipt message lookup error:", messageError.message);
+    }
+    return null;
+  }
+
+  const { data: current, error: currentError } = await supabaseAdmin
+    .from("chat_read_states")
+    .select("last_read_at")
+    .eq("room_id", roomId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (currentError) {
+    console.error("Read state lookup error:", currentError.message);
+    return null;
+  }
+  // Read positions never move backwards
+  if (
+    current &&
+    new Date(current.last_read_at).getTime() >=
+      new Date(message.created_at).getTime()
+  ) {
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("chat_read_states")
+    .upsert({
+      room_id: roomId,
+      user_id: userId,
+      last_read_message_id: message.id,
+      last_read_at: message.created_at,
+      updated_at: new Date().toISOString(),
+    })
+    .select("room_id, user_id, last_read_at, last_read_message_id")
+    .single();
+
+  if (error) {
+    console.error("Failed to save read state:", error.message);
+    return null;
+  }
+  return toSocketReadState(data);
+}
+
+module.exports = { getReadStates, markRead };
@@ -0,0 +1,196 @@
+// server/rooms.js
+const { supabaseAdmin } = require("./supabaseAdmin");
+const { isBlockedBetween } = require("./blocks");
+
+const ROOM_SEPARATOR = "--";
+// Group conversations use their chat_groups ID instead: 'group:<uuid>'
+const GROUP_ROOM_PREFIX = "group:";
+// User and group IDs are UUIDs; room IDs end up in PostgREST filter strings,
+// so anything else must be refused before querying
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Same format as createRoomId in app/dashboard/chat/page.tsx: sorted UUIDs joined by "--"
+function createRoomId(userId1, userId2) {
+  return [String(userId1), String(userId2)].sort().join(ROOM_SEPARATOR);
+}
+
+/**
+ * Splits a room ID back into the two user IDs it was built from.
+ * @returns The pair of user IDs, or null if the room ID is malformed.
+ */
+function parseRoomId(roomId) {
+  if (typeof roomId !== "string") return null;
+  const parts = roomId.split(ROOM_SEPARATOR);
+  if (
+    parts.length !== 2 ||
+    !parts.every((id) => UUID_PATTERN.test(id)) ||
+    parts[0] === parts[1]
+  ) {
+    return null;
+  }
+  // Reject IDs that aren't in canonical (sorted) order
+  if (createRoomId(parts[0], parts[1]) !== roomId) return null;
+  return parts;
+}
+
+function groupRoomId(groupId) {
+  return `${GROUP_ROOM_PREFIX}${groupId}`;
+}
+
+/**
+ * Extracts the group ID from a group room ID.
+ * @returns The chat_groups ID, or null if this isn't a (well-formed) group
+ *   room.
+ */
+function parseGroupRoomId(roomId) {
+  if (typeof roomId !== "string" || !roomId.startsWith(GROUP_ROOM_PREFIX)) {
+    return null;
+  }
+  const groupId = roomId.slice(GROUP_ROOM_PREFIX.length);
+  return UUID_PATTERN.test(groupId) ? groupId : null;
+}
+
+/**
+ * Looks up the IDs of a group's current members.
+ * @returns The member IDs (empty if the group doesn't exist or on error).
+ */
+async function getGroupMemberIds(groupId) {
+  const { data, error } = await supabaseAdmin
+    .from("chat_group_members")
+    .select("user_id")
+    .eq("group_id", groupId);
+
+  if (error) {
+    console.error("Group member lookup error:", error.message);
+    return [];
+  }
+  return (data || []).map((row) => row.user_id);
+}
+
+/**
+ * Lists everyone in a room: the pair a 1:1 room ID is built from, or a
+ * group's current members.
+ * @returns The member IDs (empty for malformed room IDs).
+ */
+async function getRoomMemberIds(roomId) {
+  const groupId = parseGroupRoomId(roomId);
+  if (groupId) return getGroupMemberIds(groupId);
+  return parseRoomId(roomId) || [];
+}
+
+/**
+ * Checks whether the user may access the room. For a group they must be a
+ * member (blocked pairs can't be added to one together, see
+ * server/groups.js); for a 1:1 room they must be one of the two users in
+ * the room ID, a `matches` row must exist for that pair and neither may
+ * have blocked the other.
+ * @returns The IDs of the room's other members if allowed, otherwise null.
+ */
+async function authorizeRoom(userId, roomId) {
+  if (parseGroupRoomId(roomId)) {
+    const members = await getRoomMemberIds(roomId);
+    return members.includes(userId)
+      ? members.filter((id) => id !== userId)
+      : null;
+  }
+
+  const members = parseRoomId(roomId);
+  if (!members || !members.includes(userId)) return null;
+  const otherUserId = members[0] === userId ? members[1] : members[0];
+
+  const { data, error } = await supabaseAdmin
+    .from("matches")
+    .select("id")
+    .or(
+      `and(student1_user_id.eq.${userId},student2_user_id.eq.${otherUserId}),and(student1_user_id.eq.${otherUserId},student2_user_id.eq.${userId})`
+    )
+    .limit(1);
+
+  if (error) {
+    console.error("Match lookup error:", error.message);
+    return null;
+  }
+  if (!data || data.length === 0) return null;
+  return (await isBlockedBetween(userId, otherUserId)) ? null : [otherUserId];
+}
+
+/**
+ * Looks up the IDs of everyone the user is matched with.
+ * @returns The other users' IDs (empty on error).
+ */
+async function getMatchedUserIds(userId) {
+  const { data, error } = await supabaseAdmin
+    .from("matches")
+    .select("student1_user_id, student2_user_id")
+    .or(`student1_user_id.eq.${userId},student2_user_id.eq.${userId}`);
+
+  if (error) {
+    console.error("Match list error:", error.message);
+    return [];
+  }
+  return (data || []).map((match) =>
+    match.student1_user_id === userId
+      ? match.student2_user_id
+      : match.student1_user_id
+  );
+}
+
+/**
+ * Removes the match between two users (unmatching). Their messages are
+ * kept: the conversation is archived, hidden from both while they aren't
+ * matched and back if they match again.
+ * @returns True if there was a match to remove.
+ * @throws If the query fails.
+ */
+async function removeMatch(userId, otherUserId) {
+  const { data, error } = await supabaseAdmin
+    .from("matches")
+    .delete()
+    .or(
+      `and(student1_user_id.eq.${userId},student2_user_id.eq.${otherUserId}),and(student1_user_id.eq.${otherUserId},student2_user_id.eq.${userId})`
+    )
+    .select("id");
+  if (error) {
+    throw new Error(`Database error removing match: ${error.message}`);
+  }
+  return data.length > 0;
+}
+
+/**
+ * Subscribes to deletions on the `matches` table and removes every socket
+ * from the corresponding room, telling the clients the room is closed.
+ * Requires `matches` to be in the supabase_realtime publication with
+ * REPLICA IDENTITY FULL (see lib/create_matches_table.sql).
+ */
+function watchMatchRemovals(io) {
+  return supabaseAdmin
+    .channel("matches-removals")
+    .on(
+      "postgres_changes",
+      { event: "DELETE", schema: "public", table: "matches" },
+      (payload) => {
+        const { student1_user_id, student2_user_id } = payload.old || {};
+        if (!student1_user_id || !student2_user_id) return;
+        const roomId = createRoomId(student1_user_id, student2_user_id);
+        console.log(`Match removed, closing room ${roomId}`);
+        io.to(roomId).emit("roomClosed", { roomId });
+        io.in(roomId).socketsLeave(roomId);
+      }
+    )
+    .subscribe((status) => {
+      console.log(`Match removal subscription: ${status}`);
+    });
+}
+
+module.exports = {
+  createRoomId,
+  parseRoomId,
+  groupRoomId,
+  parseGroupRoomId,
+  getRoomMemberIds,
+  authorizeRoom,
+  getMatchedUserIds,
+  removeMatch,
+  watchMatchRemovals,
+};
@@ -0,0 +1,47 @@
+// server/search.js
+const { supabaseAdmin } = require("./supabaseAdmin");
+
+// Queries shorter than this match too much to be useful (the chat page
+// only searches from MIN_SEARCH_LENGTH characters)
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 200;
+const MAX_RESULTS = 30;
+
+/**
+ * Searches the messages of every conversation the user has a match for.
+ * @returns { results } newest first, each { messageId, roomId, senderId,
+ *   createdAt, snippet } with hits wrapped in U+E000/U+E001, or { error }
+ *   with the chat error code and text to send back.
+ * @throws If the query fails.
+ */
+async function searchMessages(userId, query) {
+  const text = typeof query === "string" ? query.trim() : "";
+  if (text.length < MIN_QUERY_LENGTH || text.length > MAX_QUERY_LENGTH) {
+    return {
+      error: {
+        code: "INVALID_SEARCH",
+        message: `Search for ${MIN_QUERY_LENGTH} to ${MAX_QUERY_LENGTH} characters.`,
+      },
+    };
+  }
+
+  const { data, error } = await supabaseAdmin.rpc("search_chat_messages", {
+    p_user_id: userId,
+    p_query: text,
+    p_limit: MAX_RESULTS,
+  });
+  if (error) {
+    throw new Error(`Database error searching messages: ${error.message}`);
+  }
+  return {
+    results: (data || []).map((row) => ({
+      messageId: row.id,
+      roomId: row.room_id,
+      senderId: row.sender_id,
+      createdAt: row.created_at,
+      snippet: row.snippet,
+    })),
+  };
+}
+
+module.exports = { searchMessages };
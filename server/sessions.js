@@ -0,0 +1,200 @@
+// server/sessions.js
+const { supabaseAdmin } = require("./supabaseAdmin");
+
+// Limits must match lib/study-sessions.ts and lib/create_study_sessions_table.sql
+const MAX_TOPIC_LENGTH = 200;
+const MAX_LOCATION_LENGTH = 200;
+const MIN_DURATION_MINUTES = 15;
+const MAX_DURATION_MINUTES = 480;
+// How far ahead a session may be planned
+const MAX_DAYS_AHEAD = 365;
+
+// Columns selected whenever a session is sent to clients (also embedded in
+// messages through chat_messages.study_session_id). Same as in
+// lib/study-sessions.ts.
+const SESSION_COLUMNS =
+  "id, room_id, proposed_by, starts_at, duration_minutes, location, topic, " +
+  "status, responded_by, responded_at";
+
+// Maps a study_sessions row to the payload clients receive over the socket
+function toSocketSession(row) {
+  return {
+    id: row.id,
+    roomId: row.room_id,
+    proposedBy: row.proposed_by,
+    startsAt: row.starts_at,
+    durationMinutes: row.duration_minutes,
+    location: row.location,
+    topic: row.topic,
+    status: row.status,
+    respondedBy: row.responded_by,
+    respondedAt: row.responded_at,
+  };
+}
+
+const invalid = (message) => ({ error: { code: "INVALID_SESSION", message } });
+const closed = {
+  error: {
+    code: "SESSION_CLOSED",
+    message: "This proposal has already been answered.",
+  },
+};
+
+/**
+ * Checks a proposal's details.
+ * @returns The cleaned-up { startsAt, durationMinutes, location, topic },
+ *   or { error } with the chat error code and text to send back.
+ */
+function validateProposal({ startsAt, durationMinutes, location, topic }) {
+  const start = new Date(typeof startsAt === "string" ? startsAt : NaN);
+  const now = Date.now();
+  if (isNaN(start.getTime())) return invalid("Pick a date and time.");
+  if (start.getTime() <= now) return invalid("Pick a time in the future.");
+  if (start.getTime() > now + MAX_DAYS_AHEAD * 24 * 60 * 60 * 1000) {
+    return invalid("Sessions can be planned up to a year ahead.");
+  }
+  if (
+    !Number.isInteger(durationMinutes) ||
+    durationMinutes < MIN_DURATION_MINUTES ||
+    durationMinutes > MAX_DURATION_MINUTES
+  ) {
+    return invalid("Pick a duration between 15 minutes and 8 hours.");
+  }
+  const cleanTopic = typeof topic === "string" ? topic.trim() : "";
+  if (!cleanTopic || cleanTopic.length > MAX_TOPIC_LENGTH) {
+    return invalid(
+      `The topic is required and can be at most ${MAX_TOPIC_LENGTH} characters.`
+    );
+  }
+  const cleanLocation = typeof location === "string" ? location.trim() : "";
+  if (cleanLocation.length > MAX_LOCATION_LENGTH) {
+    return invalid(
+      `The location can be at most ${MAX_LOCATION_LENGTH} characters.`
+    );
+  }
+  return {
+    startsAt: start.toISOString(),
+    durationMinutes,
+    location: cleanLocation,
+    topic: cleanTopic,
+  };
+}
+
+/**
+ * Loads a session in socket payload form.
+ * @returns The session, or null if there is none with this ID.
+ * @throws If the query fails.
+ */
+async function getSession(sessionId) {
+  const { data, error } = await supabaseAdmin
+    .from("study_sessions")
+    .select(SESSION_COLUMNS)
+    .eq("id", sessionId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Database error loading session: ${error.message}`);
+  }
+  return data ? toSocketSession(data) : null;
+}
+
+/**
+ * Stores a proposed session (the caller checks room access and posts the
+ * proposal message). With replacesSessionId, that open proposal of the same
+ * room is marked "rescheduled" first.
+ * @returns { session } with the new session, plus { replaced } with the
+ *   rescheduled one, or { error } with the chat error code and text.
+ * @throws If a database query fails.
+ */
+async function createSession({ roomId, userId, details, replacesSessionId }) {
+  const proposal = validateProposal(details);
+  if (proposal.error) return proposal;
+
+  let replaced = null;
+  if (replacesSessionId) {
+    const { data, error } = await supabaseAdmin
+      .from("study_sessions")
+      .update({
+        status: "rescheduled",
+        responded_by: userId,
+        responded_at: new Date().toISOString(),
+      })
+      .eq("id", replacesSessionId)
+      .eq("room_id", roomId)
+      .eq("status", "proposed")
+      .select(SESSION_COLUMNS);
+    if (error) {
+      throw new Error(`Database error rescheduling session: ${error.message}`);
+    }
+    if (data.length === 0) return closed;
+    replaced = toSocketSession(data[0]);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("study_sessions")
+    .insert({
+      room_id: roomId,
+      proposed_by: userId,
+      starts_at: proposal.startsAt,
+      duration_minutes: proposal.durationMinutes,
+      location: proposal.location,
+      topic: proposal.topic,
+      replaces_session_id: replacesSessionId || null,
+    })
+    .select(SESSION_COLUMNS)
+    .single();
+  if (error) {
+    if (replaced) {
+      // Leave the old proposal open rather than replaced by nothing
+      await supabaseAdmin
+        .from("study_sessions")
+        .update({ status: "proposed", responded_by: null, responded_at: null })
+        .eq("id", replaced.id);
+    }
+    throw new Error(`Database error saving session: ${error.message}`);
+  }
+  return { session: toSocketSession(data), replaced };
+}
+
+/**
+ * Accepts or declines an open proposal on behalf of a room member other
+ * than the one who proposed it (the caller checks room access).
+ * @returns { session } as updated, or { error } with the chat error code
+ *   and text to send back.
+ * @throws If a database query fails.
+ */
+async function respondToSession({ session, userId, response }) {
+  if (response !== "accept" && response !== "decline") {
+    return invalid("Unknown response.");
+  }
+  if (session.proposedBy === userId) {
+    return invalid("You can't answer your own proposal.");
+  }
+  if (response === "accept" && new Date(session.startsAt) <= new Date()) {
+    return invalid("This session has already started.");
+  }
+
+  // Only an open proposal can be answered, once
+  const { data, error } = await supabaseAdmin
+    .from("study_sessions")
+    .update({
+      status: response === "accept" ? "accepted" : "declined",
+      responded_by: userId,
+      responded_at: new Date().toISOString(),
+    })
+    .eq("id", session.id)
+    .eq("status", "proposed")
+    .select(SESSION_COLUMNS);
+  if (error) {
+    throw new Error(`Database error answering session: ${error.message}`);
+  }
+  if (data.length === 0) return closed;
+  return { session: toSocketSession(data[0]) };
+}
+
+module.exports = {
+  SESSION_COLUMNS,
+  toSocketSession,
+  getSession,
+  createSession,
+  respondToSession,
+};
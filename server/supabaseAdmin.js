@@ -0,0 +1,28 @@
+// server/supabaseAdmin.js
+const { createClient } = require("@supabase/supabase-js");
+
+// The Socket.IO server checks permissions itself, so it talks to Supabase with
+// the service role key (bypasses RLS). Never expose this key to the browser.
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl) {
+  console.error("Missing environment variable: NEXT_PUBLIC_SUPABASE_URL");
+}
+if (!supabaseServiceKey) {
+  console.error("Missing environment variable: SUPABASE_SERVICE_ROLE_KEY");
+}
+
+const supabaseAdmin = createClient(
+  supabaseUrl || "",
+  supabaseServiceKey || "",
+  {
+    auth: {
+      // Server-side client: no session storage or token refresh needed
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  }
+);
+
+module.exports = { supabaseAdmin };
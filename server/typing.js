@@ -0,0 +1,63 @@
+// server/typing.js
+
+// Clients re-send typing:start while the user keeps typing (throttled); if
+// nothing arrives within this window we assume they stopped.
+const TYPING_TIMEOUT_MS = 5000;
+
+// Active typing expiry timers: Map<`${socketId}:${roomId}`, Timeout>
+const typingTimers = new Map();
+
+function timerKey(socket, roomId) {
+  return `${socket.id}:${roomId}`;
+}
+
+function emitTyping(socket, roomId, isTyping) {
+  socket
+    .to(roomId)
+    .emit("typing:update", { roomId, userId: socket.data.userId, isTyping });
+}
+
+/**
+ * Marks the socket's user as typing in a room they have joined and
+ * (re)arms the expiry timer.
+ */
+function startTyping(socket, roomId) {
+  if (!roomId || !socket.rooms.has(roomId)) return;
+
+  const key = timerKey(socket, roomId);
+  const existing = typingTimers.get(key);
+  if (existing) {
+    clearTimeout(existing);
+  } else {
+    // Only broadcast the transition, not every refresh
+    emitTyping(socket, roomId, true);
+  }
+  typingTimers.set(
+    key,
+    setTimeout(() => stopTyping(socket, roomId), TYPING_TIMEOUT_MS)
+  );
+}
+
+/**
+ * Clears the typing state for a room and tells the other members.
+ */
+function stopTyping(socket, roomId) {
+  const key = timerKey(socket, roomId);
+  const existing = typingTimers.get(key);
+  if (!existing) return;
+  clearTimeout(existing);
+  typingTimers.delete(key);
+  emitTyping(socket, roomId, false);
+}
+
+// Clears every typing state of a socket (used on disconnect)
+function stopAllTyping(socket) {
+  const prefix = `${socket.id}:`;
+  for (const key of Array.from(typingTimers.keys())) {
+    if (key.startsWith(prefix)) {
+      stopTyping(socket, key.slice(prefix.length));
+    }
+  }
+}
+
+module.exports = { startTyping, stopTyping, stopAllTyping };
@@ -0,0 +1,58 @@
+// server/unread.js
+const { supabaseAdmin } = require("./supabaseAdmin");
+
+/**
+ * Loads the unread count of every room the user has a match for.
+ * @returns A list of { roomId, count } (empty on error).
+ */
+async function getUnreadCounts(userId) {
+  const { data, error } = await supabaseAdmin.rpc("get_unread_counts", {
+    p_user_id: userId,
+  });
+
+  if (error) {
+    console.error("Unread counts error:", error.message);
+    return [];
+  }
+  return (data || []).map((row) => ({
+    roomId: row.room_id,
+    count: Number(row.unread_count) || 0,
+  }));
+}
+
+/**
+ * Counts messages in one room that the user hasn't read yet.
+ * @returns The count, or null if it couldn't be determined.
+ */
+async function countUnread(roomId, userId) {
+  const { data: readState, error: readError } = await supabaseAdmin
+    .from("chat_read_states")
+    .select("last_read_at")
+    .eq("room_id", roomId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (readError) {
+    console.error("Read state lookup error:", readError.message);
+    return null;
+  }
+
+  let query = supabaseAdmin
+    .from("chat_messages")
+    .select("id", { count: "exact", head: true })
+    .eq("room_id", roomId)
+    .neq("sender_id", userId)
+    .is("deleted_at", null); // Deleted messages don't count
+  if (readState) {
+    query = query.gt("created_at", readState.last_read_at);
+  }
+
+  const { count, error } = await query;
+  if (error) {
+    console.error("Unread count error:", error.message);
+    return null;
+  }
+  return count || 0;
+}
+
+module.exports = { getUnreadCounts, countUnread };
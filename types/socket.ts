@@ -10,3 +10,359 @@ export type NextApiResponseServerIO = NextApiResponse & {
     };
   };
 };
+
+// Error codes sent by the chat server with the "chatError" event
+export type ChatErrorCode =
+  | "ROOM_FORBIDDEN"
+  | "NOT_IN_ROOM"
+  | "INVALID_MESSAGE"
+  | "SAVE_FAILED"
+  | "SYNC_FAILED"
+  | "MESSAGE_FORBIDDEN" // Not the sender, or the message was deleted
+  | "EDIT_WINDOW_EXPIRED"
+  | "INVALID_REACTION"
+  | "INVALID_ATTACHMENT"
+  | "INVALID_SEARCH"
+  | "SEARCH_FAILED"
+  | "GROUP_FORBIDDEN" // Not a member of the group
+  | "INVALID_GROUP"
+  | "INVALID_USER" // Unmatching or blocking yourself, or a malformed ID
+  | "INVALID_REPORT"
+  | "REPORT_CLOSED" // Another moderator already handled it
+  | "MODERATION_FORBIDDEN" // Not a moderator
+  | "MESSAGE_BLOCKED" // Refused by the chat filter (server/filter.js)
+  | "RATE_LIMITED" // Too many events too fast (server/rate-limit.js)
+  | "PAYLOAD_TOO_LARGE"
+  | "PIN_LIMIT_REACHED"
+  | "INVALID_SESSION"
+  | "SESSION_CLOSED"; // Already accepted, declined or rescheduled
+
+export interface ChatErrorPayload {
+  code: ChatErrorCode;
+  roomId?: string;
+  message: string;
+}
+
+// Sent with "rateLimited" when the server drops one of our events; the
+// event's ack, if it has one, gets the same code and message
+export interface RateLimitedPayload {
+  code: "RATE_LIMITED" | "PAYLOAD_TOO_LARGE";
+  event: string; // The dropped event, e.g. "sendMessage"
+  retryAfterMs: number; // 0 when waiting won't help (too large)
+  message: string;
+}
+
+// A stored chat message as broadcast by the server ("receiveMessage", and
+// "message:edited"/"message:deleted" after a change)
+export interface SocketChatMessage {
+  id: string; // chat_messages.id
+  text: string; // Empty once deleted, may be empty with an attachment
+  attachment: ChatAttachment | null;
+  roomId: string;
+  senderId: string;
+  createdAt: string; // chat_messages.created_at (ISO string)
+  editedAt: string | null;
+  deletedAt: string | null;
+  replyTo: MessageQuote | null; // The message this one replies to
+  session: StudySession | null; // Set for study session proposals
+}
+
+// A file sent with a message, stored in the private chat-attachments bucket
+export interface ChatAttachment {
+  path: string; // '<roomId>/<uuid>-<name>' in the bucket
+  name: string; // Original file name
+  size: number; // Bytes
+  mimeType: string;
+  width?: number; // Images only, to reserve space before they load
+  height?: number;
+}
+
+export type StudySessionStatus =
+  | "proposed"
+  | "accepted"
+  | "declined"
+  | "rescheduled"; // Someone suggested another time
+
+// A study session proposed in a chat (a study_sessions row); the proposal
+// message shows it as a card. Sent again with "session:update" when it's
+// answered.
+export interface StudySession {
+  id: string;
+  roomId: string;
+  proposedBy: string | null; // null if that account was deleted
+  startsAt: string; // ISO
+  durationMinutes: number;
+  location: string; // A place or a meeting link, may be empty
+  topic: string;
+  status: StudySessionStatus;
+  respondedBy: string | null;
+  respondedAt: string | null;
+}
+
+// Payload of "session:propose"; the ack is a SendMessageAck with the
+// proposal message
+export interface ProposeSessionRequest {
+  roomId: string;
+  startsAt: string; // ISO, in the future
+  durationMinutes: number;
+  location: string;
+  topic: string;
+  replacesSessionId?: string; // Suggesting another time for this proposal
+}
+
+// Payload of "session:respond"
+export interface RespondToSessionRequest {
+  sessionId: string;
+  response: "accept" | "decline";
+}
+
+export type RespondToSessionAck =
+  | { ok: true; session: StudySession }
+  | { ok: false; code: ChatErrorCode; message: string };
+
+// The replied-to message, as quoted above a reply
+export interface MessageQuote {
+  id: string;
+  senderId: string;
+  text: string; // Empty once deleted
+  deletedAt: string | null;
+}
+
+// Acknowledgement returned for "sendMessage"
+export type SendMessageAck =
+  | { ok: true; message: SocketChatMessage }
+  | { ok: false; code: ChatErrorCode; message: string };
+
+// Acknowledgement returned for "message:edit" and "message:delete"
+export type MessageChangeAck = SendMessageAck;
+
+// A member's reaction to a message changed ("reaction:update")
+export interface ReactionUpdate {
+  roomId: string;
+  messageId: string;
+  userId: string;
+  emoji: string | null; // null when the reaction was removed
+}
+
+// Acknowledgement returned for "reaction:toggle"
+export type ToggleReactionAck =
+  | { ok: true; update: ReactionUpdate }
+  | { ok: false; code: ChatErrorCode; message: string };
+
+// A message found by "search:messages"
+export interface MessageSearchResult {
+  messageId: string;
+  roomId: string;
+  senderId: string;
+  createdAt: string;
+  snippet: string; // Excerpt of the text, hits wrapped in U+E000 ... U+E001
+}
+
+export type SearchMessagesAck =
+  | { ok: true; results: MessageSearchResult[] }
+  | { ok: false; code: ChatErrorCode; message: string };
+
+// A group conversation ("group:update" after any change, "group:list")
+export interface ChatGroup {
+  id: string; // chat_groups.id
+  roomId: string; // 'group:<id>'
+  name: string;
+  createdBy: string | null;
+  createdAt: string;
+  members: GroupMember[];
+}
+
+export interface GroupMember {
+  userId: string;
+  name: string;
+  avatarUrl: string | null;
+}
+
+// Acknowledgement returned for "group:create", "group:invite",
+// "group:rename" and "group:leave"
+export type GroupChangeAck =
+  | { ok: true; group: ChatGroup }
+  | { ok: false; code: ChatErrorCode; message: string };
+
+export type GroupListAck =
+  | { ok: true; groups: ChatGroup[] }
+  | { ok: false; code: ChatErrorCode; message: string };
+
+// The user left a group (sent to all of their tabs, "group:left")
+export interface GroupLeft {
+  groupId: string;
+  roomId: string;
+}
+
+// The newest message of a conversation, as shown in the sidebar
+export interface LastMessagePreview {
+  id: string;
+  text: string; // Empty once deleted or for attachment-only messages
+  senderId: string;
+  createdAt: string;
+  hasAttachment: boolean;
+  deleted: boolean;
+}
+
+// A conversation's sidebar entry from GET /api/conversations. Afterwards the
+// server sends "conversation:message" (a SocketChatMessage) to every
+// member's tabs when a message is sent, edited or deleted.
+export interface ConversationPreview {
+  roomId: string;
+  lastMessage: LastMessagePreview | null; // null if nothing was sent yet
+  unreadCount: number;
+}
+
+// Online status of a match ("presence:update", "presence:snapshot")
+export interface PresenceUpdate {
+  userId: string;
+  online: boolean;
+  lastSeen: string | null; // ISO timestamp, null while online or if never seen
+}
+
+// Someone started/stopped typing in a room ("typing:update")
+export interface TypingUpdate {
+  roomId: string;
+  userId: string;
+  isTyping: boolean;
+}
+
+// A member's read position in a room ("read:update", "read:snapshot")
+export interface ReadState {
+  roomId: string;
+  userId: string;
+  lastReadAt: string; // created_at of the newest message they've seen
+  lastReadMessageId: string | null;
+}
+
+export interface ReadSnapshot {
+  roomId: string;
+  reads: ReadState[];
+}
+
+// A message pinned to the top of a conversation
+export interface PinnedMessage {
+  message: MessageQuote; // Current text (pinned messages are unpinned when deleted)
+  pinnedBy: string | null; // null if that account was deleted
+  pinnedAt: string;
+}
+
+// All pins of a room, newest first ("pins:update", sent when joining the room
+// and after every change)
+export interface PinsUpdate {
+  roomId: string;
+  pins: PinnedMessage[];
+}
+
+// Payload of "message:pin"
+export interface PinMessageRequest {
+  roomId: string;
+  messageId: string;
+  pinned: boolean; // false to unpin
+}
+
+export type PinMessageAck =
+  { ok: true } | { ok: false; code: ChatErrorCode; message: string };
+
+// Unread messages in one room ("unread:update"; "unread:snapshot" sends a list)
+export interface UnreadCount {
+  roomId: string;
+  count: number;
+}
+
+// Request/ack for "sync:missed", sent after a reconnect. hasMore lists the
+// rooms with newer messages still: ask again from the last one received.
+export interface SyncMissedRequest {
+  rooms: { roomId: string; lastMessageId: string | null }[];
+}
+
+export type SyncMissedAck =
+  | { ok: true; messages: SocketChatMessage[]; hasMore: string[] }
+  | { ok: false; code: ChatErrorCode; message: string };
+
+// Acknowledgement returned for "match:unmatch" and "user:block" ({ userId })
+export type UserActionAck =
+  { ok: true } | { ok: false; code: ChatErrorCode; message: string };
+
+export type ReportReason = "harassment" | "spam" | "inappropriate" | "other";
+
+// "report:create" payload: a message (messageId + roomId) or a profile (userId)
+export type CreateReportRequest = {
+  reason: ReportReason;
+  details: string;
+} & ({ messageId: string; roomId: string } | { userId: string });
+
+export type CreateReportAck =
+  | { ok: true; reportId: string }
+  | { ok: false; code: ChatErrorCode; message: string };
+
+// The reported content as it was when reported
+export interface ReportSnapshot {
+  message?: {
+    text: string;
+    attachment: ChatAttachment | null;
+    createdAt: string;
+  };
+  // The messages just before the reported one
+  context?: {
+    senderId: string;
+    senderName: string;
+    text: string;
+    createdAt: string;
+  }[];
+  profile?: {
+    name: string;
+    fieldOfStudy: string | null;
+    yearOfStudy: number | null;
+    avatarUrl: string | null;
+  };
+}
+
+// An open report in the moderation queue ("moderation:list")
+export interface ModerationReport {
+  id: string;
+  reason: ReportReason;
+  details: string;
+  createdAt: string;
+  messageId: string | null; // null for profile reports
+  roomId: string | null;
+  snapshot: ReportSnapshot;
+  reporter: { userId: string | null; name: string }; // null: the chat filter
+  reportedUser: {
+    userId: string;
+    name: string;
+    avatarUrl: string | null;
+    suspended: boolean;
+    priorActions: number; // Earlier warnings, removals and suspensions
+  };
+}
+
+export type ModerationListAck =
+  | { ok: true; reports: ModerationReport[] }
+  | { ok: false; code: ChatErrorCode; message: string };
+
+export type ModerationAction =
+  "dismiss" | "warn" | "remove_content" | "suspend";
+
+// "moderation:resolve" payload
+export interface ResolveReportRequest {
+  reportId: string;
+  action: ModerationAction;
+  note: string; // Shown to the user for warnings
+}
+
+export type ResolveReportAck =
+  { ok: true } | { ok: false; code: ChatErrorCode; message: string };
+
+// A moderator's warning to the user ("moderation:warning"), shown until
+// acknowledged with "moderation:acknowledge" ({ warningId })
+export interface ModerationWarning {
+  id: string;
+  reason: ReportReason;
+  note: string;
+  createdAt: string;
+}
+
+// Optional ack for "joinRoom"
+export type JoinRoomAck =
+  { ok: true } | { ok: false; code: ChatErrorCode; message: string };